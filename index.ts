@@ -1,5 +1,13 @@
 import type { ClawdbotPluginApi } from 'clawdbot/plugin-sdk';
-import { dingtalkPlugin, dingtalkConfigSchema } from './src/channel';
+import {
+  dingtalkPlugin,
+  dingtalkConfigSchema,
+  approveDingTalkPairing,
+  listDingTalkPairingRequests,
+  listDingTalkOutbox,
+  replayDingTalkDeadLetters,
+  listDingTalkConversations,
+} from './src/channel';
 import { setDingTalkRuntime } from './src/runtime';
 
 const plugin = {
@@ -18,6 +26,30 @@ const plugin = {
       const result = await dingtalkPlugin.status.probe({ cfg });
       respond(result.ok, result);
     });
+    api.registerGatewayMethod('dingtalk.pairing.approve', async ({ params, respond, cfg }: any) => {
+      const code = typeof params?.code === 'string' ? params.code.trim() : '';
+      if (!code) {
+        respond(false, { error: 'code required' });
+        return;
+      }
+      const result = await approveDingTalkPairing({ cfg, code, accountId: params?.accountId, log: api.logger });
+      respond(result.ok, result);
+    });
+    api.registerGatewayMethod('dingtalk.pairing.list', ({ params, respond }: any) => {
+      respond(true, { requests: listDingTalkPairingRequests(params?.accountId) });
+    });
+    api.registerGatewayMethod('dingtalk.outbox.list', ({ params, respond }: any) => {
+      respond(true, listDingTalkOutbox(params?.accountId));
+    });
+    api.registerGatewayMethod('dingtalk.outbox.replay', ({ params, respond }: any) => {
+      const ids = Array.isArray(params?.ids) ? params.ids.filter((id: unknown) => typeof id === 'string') : undefined;
+      const result = replayDingTalkDeadLetters({ accountId: params?.accountId, ids });
+      respond(result.ok, result);
+    });
+    api.registerGatewayMethod('dingtalk.conversations.list', ({ params, respond }: any) => {
+      const type = params?.type === 'group' || params?.type === 'direct' ? params.type : undefined;
+      respond(true, { conversations: listDingTalkConversations({ accountId: params?.accountId, type }) });
+    });
     api.logger?.info?.('[DingTalk] Plugin registered');
   },
 };
@@ -0,0 +1,126 @@
+/**
+ * Interactive card actions (buttons and input fields)
+ *
+ * Agents attach actions to a reply either through `channelData.dingtalk.actions`
+ * (typed {@link CardAction} list) or with text directives:
+ *
+ * - [[buttons: 确认:confirm, 取消:cancel]]   (label:actionId, actionId defaults to label)
+ * - [[input: fieldId | 标签 | 占位符]]
+ *
+ * Clicks and form submissions come back over the Stream card callback topic and
+ * are parsed into {@link CardActionEvent}s.
+ */
+
+import type { CardAction, CardActionEvent, InteractiveCardContent } from './types';
+
+const BUTTONS_DIRECTIVE = /\[\[buttons:\s*([^\]]+)\]\]/gi;
+const INPUT_DIRECTIVE = /\[\[input:\s*([^\]]+)\]\]/gi;
+
+/**
+ * Extract card actions from a reply payload, returning the text with directives removed
+ */
+export function extractCardActions(payload: { text?: string; channelData?: any }): {
+  text: string;
+  actions: CardAction[];
+} {
+  const actions: CardAction[] = [];
+  const typed = payload.channelData?.dingtalk?.actions;
+  if (Array.isArray(typed)) {
+    actions.push(...(typed as CardAction[]).filter((action) => action && action.id));
+  }
+
+  let text = payload.text ?? '';
+
+  // The first directive button is highlighted as the primary action
+  let directiveButtons = 0;
+  text = text.replace(BUTTONS_DIRECTIVE, (_match, body: string) => {
+    for (const item of body.split(',')) {
+      const [label, id] = item.split(':').map((part) => part.trim());
+      if (!label) continue;
+      actions.push({ type: 'button', id: id || label, label, style: directiveButtons++ === 0 ? 'primary' : 'normal' });
+    }
+    return '';
+  });
+
+  text = text.replace(INPUT_DIRECTIVE, (_match, body: string) => {
+    const [id, label, placeholder] = body.split('|').map((part) => part.trim());
+    if (id) actions.push({ type: 'input', id, label: label || undefined, placeholder: placeholder || undefined });
+    return '';
+  });
+
+  return { text: text.trim(), actions };
+}
+
+/**
+ * Build card content blocks for actions: inputs first, then one button row
+ */
+export function buildCardActionContents(actions: CardAction[]): InteractiveCardContent[] {
+  const contents: InteractiveCardContent[] = [];
+
+  for (const action of actions) {
+    if (action.type !== 'input') continue;
+    contents.push({
+      type: 'input',
+      id: action.id,
+      label: action.label ? { type: 'text', text: action.label } : undefined,
+      placeholder: action.placeholder ? { type: 'text', text: action.placeholder } : undefined,
+    });
+  }
+
+  const buttons = actions.filter((action) => action.type === 'button');
+  if (buttons.length > 0) {
+    contents.push({
+      type: 'action',
+      actions: buttons.map((button) => ({
+        type: 'button',
+        id: button.id,
+        label: { type: 'text', text: button.label },
+        actionType: 'request',
+        status: button.style || 'normal',
+        params: button.params,
+      })),
+    });
+  }
+
+  return contents;
+}
+
+/**
+ * Parse a Stream card callback payload into a card action event
+ */
+export function parseCardCallback(data: any): CardActionEvent | null {
+  const cardBizId = data?.outTrackId || data?.cardBizId;
+  const userId = data?.userId || data?.staffId;
+  if (!cardBizId || !userId) return null;
+
+  // `content` is a JSON string: {"cardPrivateData":{"actionIds":["confirm"],"params":{...}}}
+  let privateData: any = {};
+  try {
+    const content = typeof data.content === 'string' ? JSON.parse(data.content) : data.content;
+    privateData = content?.cardPrivateData ?? content ?? {};
+  } catch {
+    // Malformed content still yields an event, just without action details
+  }
+
+  const params: Record<string, unknown> = privateData.params ?? {};
+  const actionId = privateData.actionIds?.[0] || (params.actionId as string | undefined) || 'unknown';
+  const openConversationId =
+    data.openConversationId ||
+    (typeof data.spaceId === 'string' && data.spaceId.startsWith('cid') ? data.spaceId : undefined);
+
+  return { cardBizId, actionId, params, userId, openConversationId };
+}
+
+/**
+ * Describe a card action as inbound text for the agent
+ */
+export function formatCardActionText(event: CardActionEvent): string {
+  const params = Object.entries(event.params).filter(([key]) => key !== 'actionId');
+  const lines = [`[卡片操作] actionId=${event.actionId}`];
+  if (params.length > 0) {
+    lines.push(
+      ...params.map(([key, value]) => `- ${key}: ${typeof value === 'string' ? value : JSON.stringify(value)}`)
+    );
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,40 @@
+/**
+ * On-disk store for card instances
+ *
+ * Card instances live in memory while replies stream into them. They are
+ * mirrored to a small JSON file so that after a gateway restart cards stay
+ * addressable by ID, and cards whose reply never finished can be found and
+ * marked as interrupted.
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { CardInstance } from './types';
+
+interface CardStoreData {
+  version: 1;
+  cards: CardInstance[];
+}
+
+/**
+ * Read persisted card instances (empty when the store is missing or unreadable)
+ */
+export function readCardStore(filePath: string): CardInstance[] {
+  try {
+    const data = JSON.parse(fs.readFileSync(filePath, 'utf8')) as Partial<CardStoreData>;
+    return Array.isArray(data.cards) ? data.cards.filter((card) => card && card.cardBizId) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Atomically replace the persisted card instances
+ */
+export function writeCardStore(filePath: string, cards: CardInstance[]): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const data: CardStoreData = { version: 1, cards };
+  const tempPath = `${filePath}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(data));
+  fs.renameSync(tempPath, filePath);
+}
@@ -1,31 +1,106 @@
-import { DWClient, TOPIC_ROBOT } from 'dingtalk-stream';
+import { DWClient, TOPIC_CARD, TOPIC_ROBOT } from 'dingtalk-stream';
 import axios from 'axios';
 import * as fs from 'node:fs';
 import * as path from 'node:path';
 import * as os from 'node:os';
 import { randomUUID } from 'node:crypto';
+import { Readable, Transform } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import { fileURLToPath } from 'node:url';
 import type { ClawdbotConfig } from 'clawdbot/plugin-sdk';
 import { maskSensitiveData, cleanupOrphanedTempFiles, retryWithBackoff } from '../utils';
 import { getDingTalkRuntime } from './runtime';
 import { DingTalkConfigSchema } from './config-schema.js';
+import {
+  MAGIC_BYTES_LENGTH,
+  assertMediaSize,
+  detectFileTypeFromBytes,
+  detectMediaType,
+  estimateAudioDurationMs,
+  extensionForMimeType,
+  sanitizeFileName,
+} from './media';
+import { checkAndRecordMessage, disposeDedupCache, initDedupCache } from './dedup';
+import { enqueueRateLimited, getRateLimitStats } from './rate-limiter';
+import {
+  flushConversationRegistry,
+  getConversationParticipants,
+  listConversations,
+  loadConversationRegistry,
+  parseGroupTarget,
+  recordConversation,
+  resolveGroupByTitle,
+} from './conversations';
+import { cacheDirectoryUser, getCachedDirectoryUser, parseDirectoryTarget, pickDirectoryUser } from './directory';
+import { disposeOutbox, enqueueOutbound, hasOutbox, initOutbox, listOutbox, replayDeadLetters } from './outbox';
+import {
+  disposeStreamHealth,
+  getStreamHealth,
+  initStreamHealth,
+  recordConnected,
+  recordDisconnected,
+  recordInbound,
+  recordOutbound,
+  recordReconnectAttempt,
+} from './health';
+import { readCardStore, writeCardStore } from './card-store';
+import { formatTextAttachment, isTextAttachment, readTextAttachment } from './text-attachments';
+import { buildHelpMenu, parseCommandAction, parseSlashCommand } from './commands';
+import { chunkReplyText } from './chunker';
+import { extractTitle, toDingTalkMarkdown, toPlainText } from './markdown';
+import { buildCardActionContents, extractCardActions, formatCardActionText, parseCardCallback } from './card-actions';
+import {
+  extractInboundMentions,
+  extractMentionDirectives,
+  formatMentionText,
+  formatMentionedUsers,
+  matchTrigger,
+  resolveMentions,
+} from './mentions';
+import {
+  approvePairingCode,
+  generatePairingCode,
+  isPairingApproved,
+  listPairingRequests,
+  recordPairingRequest,
+} from './pairing';
 import type {
   DingTalkConfig,
   TokenInfo,
   DingTalkInboundMessage,
   MessageContent,
+  InboundMediaRef,
+  ConversationReplyTarget,
+  QuotedMessageContent,
   SendMessageOptions,
   MediaFile,
+  DingTalkMediaType,
+  MediaUploadResponse,
+  SendMediaOptions,
   HandleDingTalkMessageParams,
   ProactiveMessagePayload,
   SessionWebhookResponse,
+  SessionSendResult,
   AxiosResponse,
   Logger,
   GatewayStartContext,
   GatewayStopResult,
   InteractiveCardData,
+  CardAction,
+  CardActionEvent,
   InteractiveCardSendRequest,
   InteractiveCardUpdateRequest,
   CardInstance,
+  AICardFlowStatus,
+  AICardCreateRequest,
+  AICardStreamingRequest,
+  AICardUpdateRequest,
+  DingTalkGroupConfig,
+  PairingRequest,
+  OutboxEntry,
+  OutboxMessage,
+  DirectoryUser,
+  ConversationRecord,
 } from './types';
 
 // Use dynamic require to get buildChannelConfigSchema (avoids TS type resolution issues)
@@ -40,9 +115,14 @@ try {
   dingtalkConfigSchema = {};
 }
 
-// Access Token cache
-let accessToken: string | null = null;
-let accessTokenExpiry = 0;
+// Access Token cache, keyed by clientId so multiple accounts don't overwrite each other
+const accessTokens = new Map<string, { token: string; expiry: number }>();
+
+// In-flight token refreshes, shared by concurrent callers of the same clientId
+const accessTokenRefreshes = new Map<string, Promise<string>>();
+
+// Refresh tokens this long before DingTalk expires them
+const ACCESS_TOKEN_REFRESH_MARGIN = 60000;
 
 // Card instance cache for streaming updates
 const cardInstances = new Map<string, CardInstance>();
@@ -58,6 +138,57 @@ const CARD_UPDATE_TIMEOUT = 60000; // 60 seconds of inactivity = finalized
 // Card cache TTL (1 hour)
 const CARD_CACHE_TTL = 60 * 60 * 1000; // 1 hour
 
+// Card instances are mirrored to disk (debounced) so they survive a gateway restart
+const CARD_STORE_FLUSH_DELAY = 500;
+let cardStoreFlushTimer: NodeJS.Timeout | null = null;
+let cardStoreLoaded = false;
+
+// Unfinished cards restored from the store, awaiting recovery by their account
+const restoredUnfinishedCards = new Set<string>();
+
+const THINKING_TEXT = '🤔 思考中，请稍候...';
+// Text emoji reaction used instead of the placeholder when thinkingIndicator is 'reaction'
+const THINKING_REACTION = { name: '🤔思考中', emotionId: '2659900', backgroundId: 'im_bg_1' };
+const CARD_INTERRUPTED_TEXT = '⚠️ 回复已中断（网关重启），请重新发送消息。';
+
+// AI card flow status values understood by DingTalk's AI card templates
+const AI_CARD_STATUS = {
+  PROCESSING: '1',
+  INPUTTING: '2',
+  FINISHED: '3',
+  FAILED: '5',
+} as const;
+const DEFAULT_AI_CARD_TEMPLATE_ID = '382e4302-551d-4880-bf29-a30acfab2e71.schema';
+const DEFAULT_AI_CARD_CONTENT_KEY = 'msgContent';
+
+// Stop using a session webhook this long before DingTalk expires it
+const SESSION_WEBHOOK_EXPIRY_MARGIN = 60 * 1000;
+
+// Default maximum characters per message before a reply is split
+const DEFAULT_CHUNK_LIMITS = { session: 4000, proactive: 4000, card: 4000 };
+
+// Outbound rate limits: messages per minute into one conversation, and sends per minute per app
+const DEFAULT_RATE_LIMITS = { perConversationPerMinute: 20, perAppPerMinute: 600 };
+
+// Contact directory: users fetched per name search, the root department of the org tree, and
+// how far an email lookup walks the tree (departments visited, contact API calls made)
+const DIRECTORY_SEARCH_LIMIT = 20;
+const DIRECTORY_ROOT_DEPARTMENT = 1;
+const DIRECTORY_EMAIL_MAX_DEPARTMENTS = 200;
+const DIRECTORY_EMAIL_MAX_CALLS = 500;
+
+// Largest inbound file downloaded for the agent (MB), unless mediaMaxMb says otherwise
+const DEFAULT_MEDIA_MAX_MB = 20;
+
+// Text attachment content passed inline (KB), unless textAttachments.maxSizeKB says otherwise
+const DEFAULT_TEXT_ATTACHMENT_KB = 64;
+
+// Stream connection health checks: how often to look, and the reconnect backoff bounds
+const STREAM_HEALTH_CHECK_INTERVAL = 5000;
+const STREAM_RECONNECT_BASE_DELAY = 1000;
+const STREAM_SOCKET_CLOSE_TIMEOUT = 5000;
+const STREAM_CONNECT_TIMEOUT = 30000;
+
 // Authorization helpers
 type NormalizedAllowFrom = {
   entries: string[];
@@ -98,12 +229,452 @@ function isSenderAllowed(params: {
   return false;
 }
 
+/**
+ * Resolve per-group settings: the group's own entry merged over the '*' default, which is merged
+ * over the account-level mention settings (requireMention, triggerPrefixes, triggerKeywords).
+ * Under groupPolicy 'allowlist' only groups listed in `groups` (or covered by '*') are allowed;
+ * `enabled: false` disables a group under either policy.
+ */
+function resolveGroupSettings(
+  config: DingTalkConfig,
+  groupId: string
+): { allowed: boolean; settings: DingTalkGroupConfig } {
+  const groups = config.groups ?? {};
+  const entry = groups[groupId];
+  const fallback = groups['*'];
+  const settings: DingTalkGroupConfig = {
+    requireMention: config.requireMention,
+    triggerPrefixes: config.triggerPrefixes,
+    triggerKeywords: config.triggerKeywords,
+    ...fallback,
+    ...entry,
+  };
+  const enabled = entry ? entry.enabled !== false : fallback?.enabled !== false;
+  const listed = Boolean(entry || fallback);
+  const allowed = enabled && (config.groupPolicy !== 'allowlist' || listed);
+  return { allowed, settings };
+}
+
+const PAIRING_APPROVED_TEXT = '✅ 配对已通过，现在可以开始与机器人对话了。';
+
+function resolvePairingStorePath(): string {
+  return path.join(resolvePluginStateDir(), 'pairing.json');
+}
+
+// Check whether a DM sender is paired: listed in allowFrom, approved via the SDK
+// pairing store (CLI), or approved via the dingtalk.pairing.approve gateway method
+async function isPairedSender(config: DingTalkConfig, accountId: string, senderId: string): Promise<boolean> {
+  const configured = normalizeAllowFrom(config.allowFrom);
+  if (configured.hasEntries && isSenderAllowed({ allow: configured, senderId })) return true;
+
+  const rt = getDingTalkRuntime();
+  const storeAllowFrom: string[] = await rt.channel.pairing.readAllowFromStore('dingtalk').catch(() => []);
+  const stored = normalizeAllowFrom(storeAllowFrom);
+  if (stored.hasEntries && isSenderAllowed({ allow: stored, senderId })) return true;
+
+  return isPairingApproved(resolvePairingStorePath(), accountId, senderId);
+}
+
+// Issue (or repeat) a pairing code to an unpaired DM sender
+async function sendPairingChallenge(params: {
+  config: DingTalkConfig;
+  accountId: string;
+  sessionWebhook: string;
+  senderId: string;
+  senderName: string;
+  log?: Logger;
+}): Promise<void> {
+  const { config, accountId, sessionWebhook, senderId, senderName, log } = params;
+  const rt = getDingTalkRuntime();
+
+  // Prefer the SDK's code so `clawdbot pairing approve dingtalk <code>` works too;
+  // the SDK returns no code once its pending queue is full
+  let code = '';
+  try {
+    const result = await rt.channel.pairing.upsertPairingRequest({
+      channel: 'dingtalk',
+      id: senderId,
+      meta: { name: senderName },
+    });
+    code = result.code;
+  } catch (err: any) {
+    log?.debug?.(`[DingTalk] SDK pairing request failed for ${senderId}: ${err.message}`);
+  }
+
+  const ttlMinutes = config.pairing?.codeTtlMinutes ?? 60;
+  const { request, created } = recordPairingRequest(resolvePairingStorePath(), {
+    accountId,
+    senderId,
+    senderName,
+    code: code || generatePairingCode(),
+    issuedBySdk: Boolean(code),
+    ttlMs: ttlMinutes * 60 * 1000,
+    maxPendingPerSender: config.pairing?.maxPendingPerSender ?? 3,
+  });
+  log?.info?.(
+    `[DingTalk] Pairing request from ${senderName} (${senderId}) for ${accountId}, code=${request.code} created=${created}`
+  );
+
+  const text = [
+    created ? '🔐 需要配对' : '🔐 配对待批准',
+    '',
+    `您的用户ID：\`${senderId}\``,
+    `配对码：**${request.code}**（${ttlMinutes} 分钟内有效）`,
+    '',
+    '请将配对码发给管理员批准：',
+    // Only codes from the SDK store can be approved through the CLI
+    request.issuedBySdk
+      ? `\`clawdbot pairing approve dingtalk ${request.code}\``
+      : `Gateway 方法 \`dingtalk.pairing.approve\`（code: ${request.code}）`,
+  ].join('\n');
+
+  try {
+    await sendBySession(config, sessionWebhook, text, { conversationId: senderId, log });
+  } catch (err: any) {
+    log?.debug?.(`[DingTalk] Failed to send pairing code: ${err.message}`);
+  }
+}
+
+/**
+ * Approve a pending pairing code (dingtalk.pairing.approve) and notify the sender through the
+ * account the code was issued for; with `accountId`, only that account's codes match
+ */
+async function approveDingTalkPairing(params: {
+  cfg: ClawdbotConfig;
+  code: string;
+  accountId?: string;
+  log?: Logger;
+}): Promise<{ ok: boolean; senderId?: string; accountId?: string; error?: string }> {
+  const request = approvePairingCode(resolvePairingStorePath(), params.code, params.accountId);
+  if (!request) {
+    return { ok: false, error: `Unknown or expired pairing code: ${params.code}` };
+  }
+
+  try {
+    await sendProactiveMessage(getConfig(params.cfg, request.accountId), request.senderId, PAIRING_APPROVED_TEXT, {
+      log: params.log,
+    });
+  } catch (err: any) {
+    params.log?.warn?.(`[DingTalk] Failed to notify ${request.senderId} of pairing approval: ${err.message}`);
+  }
+  return { ok: true, senderId: request.senderId, accountId: request.accountId };
+}
+
+/**
+ * List pending pairing requests of all accounts, or of one (dingtalk.pairing.list)
+ */
+function listDingTalkPairingRequests(accountId?: string): PairingRequest[] {
+  return listPairingRequests(resolvePairingStorePath(), accountId);
+}
+
+// The legacy oapi.dingtalk.com endpoints report token errors in the body instead of HTTP 401;
+// rethrow them as a 401 so withAccessToken refreshes the token and retries
+function throwOnOapiTokenError(data: { errcode?: number; errmsg?: string }): void {
+  if (data.errcode === 40014 || data.errcode === 42001) {
+    throw Object.assign(new Error(data.errmsg || 'Access token rejected'), { response: { status: 401 } });
+  }
+}
+
+// Call a legacy oapi.dingtalk.com contact endpoint and return its `result`
+async function callContactApi<T>(
+  config: DingTalkConfig,
+  endpoint: string,
+  data: Record<string, unknown>,
+  log?: Logger
+): Promise<T> {
+  const response = await withAccessToken(
+    config,
+    async (token) => {
+      const result = await axios.post<{ errcode?: number; errmsg?: string; result?: T }>(
+        `https://oapi.dingtalk.com${endpoint}`,
+        data,
+        { params: { access_token: token } }
+      );
+      throwOnOapiTokenError(result.data);
+      return result;
+    },
+    log
+  );
+  if (response.data.errcode) {
+    throw new Error(`[DingTalk] Contact lookup ${endpoint} failed: ${response.data.errmsg || response.data.errcode}`);
+  }
+  return response.data.result as T;
+}
+
+interface ContactApiUser {
+  userid: string;
+  name: string;
+  title?: string;
+  email?: string;
+  org_email?: string;
+}
+
+interface ContactApiUserPage {
+  has_more?: boolean;
+  next_cursor?: number;
+  list?: ContactApiUser[];
+}
+
+function toDirectoryUser(user: ContactApiUser, department?: string): DirectoryUser {
+  return {
+    userId: user.userid,
+    name: user.name,
+    title: user.title || undefined,
+    department,
+    email: user.org_email || user.email || undefined,
+  };
+}
+
+// Search users by name, with their details for candidate lists
+async function searchDirectoryUsers(config: DingTalkConfig, name: string, log?: Logger): Promise<DirectoryUser[]> {
+  const response = await withAccessToken(
+    config,
+    (token) =>
+      axios.post<{ list?: string[] }>(
+        'https://api.dingtalk.com/v1.0/contact/users/search',
+        { queryWord: name, offset: 0, size: DIRECTORY_SEARCH_LIMIT },
+        { headers: { 'x-acs-dingtalk-access-token': token, 'Content-Type': 'application/json' } }
+      ),
+    log
+  );
+  const userIds = response.data.list ?? [];
+  const users = await Promise.all(
+    userIds.map((userId) => callContactApi<ContactApiUser>(config, '/topapi/v2/user/get', { userid: userId }, log))
+  );
+  return users.map((user) => toDirectoryUser(user));
+}
+
+// Find a user by email. There is no lookup API for emails, so the department tree is walked
+// (breadth-first, users page by page) until a member with that email turns up. The walk is
+// bounded; an org too large to search within the bounds fails with an error.
+async function findDirectoryUserByEmail(
+  config: DingTalkConfig,
+  email: string,
+  log?: Logger
+): Promise<DirectoryUser | undefined> {
+  const departments: Array<{ id: number; name?: string }> = [{ id: DIRECTORY_ROOT_DEPARTMENT }];
+  const seen = new Set<number>();
+  let calls = 0;
+  const checkBounds = () => {
+    if (seen.size > DIRECTORY_EMAIL_MAX_DEPARTMENTS || calls >= DIRECTORY_EMAIL_MAX_CALLS) {
+      throw new Error(
+        `Gave up looking up "${email}" after ${seen.size} departments (${calls} contact API calls); use a user:, mobile: or userId target instead`
+      );
+    }
+    calls++;
+  };
+
+  while (departments.length > 0) {
+    const department = departments.shift()!;
+    if (seen.has(department.id)) continue;
+    seen.add(department.id);
+
+    let cursor: number | undefined = 0;
+    while (cursor !== undefined) {
+      checkBounds();
+      const page: ContactApiUserPage = await callContactApi<ContactApiUserPage>(
+        config,
+        '/topapi/v2/user/list',
+        { dept_id: department.id, cursor, size: 100 },
+        log
+      );
+      const match = page.list?.find((user) =>
+        [user.email, user.org_email].some((address) => address?.toLowerCase() === email)
+      );
+      if (match) return toDirectoryUser(match, department.name);
+      cursor = page.has_more ? page.next_cursor : undefined;
+    }
+
+    checkBounds();
+    const subDepartments = await callContactApi<Array<{ dept_id: number; name: string }>>(
+      config,
+      '/topapi/v2/department/listsub',
+      { dept_id: department.id },
+      log
+    );
+    departments.push(...(subDepartments ?? []).map((sub) => ({ id: sub.dept_id, name: sub.name })));
+  }
+  return undefined;
+}
+
+// Inbound media for an account is downloaded below its own directory in the OS temp dir
+function resolveMediaDir(accountId = 'default'): string {
+  return path.join(os.tmpdir(), 'dingtalk-media', accountId.replace(/[^\w.-]/g, '_'));
+}
+
+function ensureMediaDir(accountId?: string): string {
+  const dir = resolveMediaDir(accountId);
+  fs.mkdirSync(dir, { recursive: true });
+  return dir;
+}
+
+function resolveConversationRegistryPath(): string {
+  return path.join(resolvePluginStateDir(), 'conversations.json');
+}
+
+// Resolve a `group:<title>` target to its openConversationId; other targets pass through
+function resolveGroupTarget(to: string, accountId?: string): string {
+  const title = parseGroupTarget(to);
+  if (!title) return to;
+  loadConversationRegistry(resolveConversationRegistryPath());
+  return resolveGroupByTitle(title, accountId);
+}
+
+/**
+ * List the conversations the bot has seen (dingtalk.conversations.list)
+ */
+function listDingTalkConversations(
+  params: { accountId?: string; type?: 'group' | 'direct' } = {}
+): ConversationRecord[] {
+  loadConversationRegistry(resolveConversationRegistryPath());
+  return listConversations(params);
+}
+
+// Resolve group:<title> targets through the conversation registry and user:/mobile:/email:/unionid:
+// targets to a userId through the contact directory; conversation and user IDs are returned unchanged
+async function resolveProactiveTarget(
+  config: DingTalkConfig,
+  to: string,
+  log?: Logger,
+  accountId?: string
+): Promise<string> {
+  if (parseGroupTarget(to)) return resolveGroupTarget(to, accountId);
+  const target = parseDirectoryTarget(to);
+  if (!target) return to;
+
+  const cacheTtl = (config.directory?.cacheTtlMinutes ?? 60) * 60 * 1000;
+  const cached = getCachedDirectoryUser(config.clientId, target);
+  if (cached) return cached;
+  if (cached === null) throw new Error(`No DingTalk user found for "${target.query}" (cached lookup)`);
+
+  let userId: string;
+  if (target.kind === 'mobile') {
+    const result = await callContactApi<{ userid: string }>(
+      config,
+      '/topapi/v2/user/getbymobile',
+      { mobile: target.query },
+      log
+    );
+    userId = result.userid;
+  } else if (target.kind === 'unionid') {
+    const result = await callContactApi<{ userid: string }>(
+      config,
+      '/topapi/user/getbyunionid',
+      { unionid: target.query },
+      log
+    );
+    userId = result.userid;
+  } else if (target.kind === 'email') {
+    // Misses are cached too, so unknown addresses don't walk the org tree on every send
+    const user = await findDirectoryUserByEmail(config, target.query, log);
+    if (!user) {
+      cacheDirectoryUser(config.clientId, target, null, cacheTtl);
+      throw new Error(`No DingTalk user found for "${target.query}"`);
+    }
+    userId = user.userId;
+  } else {
+    userId = pickDirectoryUser(target.query, await searchDirectoryUsers(config, target.query, log)).userId;
+  }
+
+  cacheDirectoryUser(config.clientId, target, userId, cacheTtl);
+  log?.debug?.(`[DingTalk] Resolved ${target.kind}:${target.query} to userId ${userId}`);
+  return userId;
+}
+
+// Turn [[at: …]] directives of a proactive text into text mentions: the OpenAPI has no @ field,
+// and mentions only mean something in groups
+function renderProactiveMentions(text: string, target: string, accountId?: string): string {
+  const directive = extractMentionDirectives(text);
+  if (directive.items.length === 0 && !directive.atAll) return text;
+  if (!target.startsWith('cid')) return directive.text;
+  loadConversationRegistry(resolveConversationRegistryPath());
+  const mentions = resolveMentions(directive.items, getConversationParticipants(accountId || 'default', target));
+  return `${directive.text} ${formatMentionText(mentions, directive.atAll)}`;
+}
+
+// Send a message taken from the persistent outbound queue. Texts were rendered and split into
+// chunks when they were queued, so each entry is a single send (older entries may still carry
+// raw text or a media caption)
+async function deliverOutboxEntry(config: DingTalkConfig, entry: OutboxEntry, log?: Logger): Promise<unknown> {
+  if (entry.kind === 'media' && entry.mediaSource) {
+    return sendProactiveMedia(config, entry.to, entry.mediaSource, {
+      caption: entry.caption,
+      fileName: entry.fileName,
+      log,
+    });
+  }
+  if (entry.msgKey) {
+    return sendProactivePayload(config, entry.to, entry.msgKey, { title: entry.title, text: entry.text ?? '' }, log);
+  }
+  return sendProactiveMessage(config, entry.to, entry.text ?? '', { log });
+}
+
+// Network errors, throttling, auth refreshes and server errors are worth another attempt;
+// other client errors (bad target, rejected content) won't get better
+function isRetryableSendError(err: any): boolean {
+  const status = err.response?.status;
+  return !status || status === 401 || status === 408 || status === 429 || status >= 500;
+}
+
+// Hand outbound messages to the account's persistent queue and report their first attempts.
+// Each entry is a single send, so a retry never repeats sends that already went out.
+async function sendQueued(
+  accountId: string,
+  messages: OutboxMessage[]
+): Promise<{ ok: boolean; data?: any; error?: any }> {
+  // Enqueued together (in order) before any attempt settles
+  const outcomes = await Promise.all(messages.map((message) => enqueueOutbound(accountId, message)));
+  const dead = outcomes.find((outcome) => outcome.status === 'dead');
+  if (dead) return { ok: false, error: dead.entry.lastError };
+  const data = outcomes.map(({ status, entry, result }) =>
+    status === 'sent' ? result : { queued: true, id: entry.id, lastError: entry.lastError }
+  );
+  return { ok: true, data: data.length === 1 ? data[0] : data };
+}
+
+// Queue entries for a proactive text: one per chunk, rendered and split the way
+// sendProactiveMessage would
+function queuedTextMessages(config: DingTalkConfig, to: string, text: string): OutboxMessage[] {
+  const { useMarkdown, title, text: rendered } = renderOutgoingText(text, {}, 'Clawdbot 提醒');
+  const msgKey = useMarkdown ? 'sampleMarkdown' : 'sampleText';
+  return chunkReplyText(rendered, resolveChunkLimit(config, 'proactive')).map((chunk) => ({
+    to,
+    kind: 'text',
+    text: chunk,
+    msgKey,
+    title,
+  }));
+}
+
+/**
+ * List queued and dead-lettered outbound messages (dingtalk.outbox.list)
+ */
+function listDingTalkOutbox(accountId?: string): { pending: OutboxEntry[]; dead: OutboxEntry[] } {
+  return listOutbox(accountId);
+}
+
+/**
+ * Re-queue dead-lettered outbound messages (dingtalk.outbox.replay)
+ */
+function replayDingTalkDeadLetters(params: { accountId?: string; ids?: string[] }): {
+  ok: boolean;
+  replayed: string[];
+  error?: string;
+} {
+  const accountId = params.accountId || 'default';
+  if (!hasOutbox(accountId)) {
+    return { ok: false, replayed: [], error: `Outbound queue for account ${accountId} is not running` };
+  }
+  return { ok: true, replayed: replayDeadLetters(accountId, params.ids).map((entry) => entry.id) };
+}
+
 // Clean up old card instances from cache
 function cleanupCardCache() {
   const now = Date.now();
   for (const [cardBizId, instance] of cardInstances.entries()) {
     if (now - instance.lastUpdated > CARD_CACHE_TTL) {
       cardInstances.delete(cardBizId);
+      persistCardInstances();
       cardUpdateTimestamps.delete(cardBizId);
       const timeout = cardUpdateTimeouts.get(cardBizId);
       if (timeout) {
@@ -128,27 +699,105 @@ function stopCardCacheCleanup() {
     clearTimeout(timeout);
   }
   cardUpdateTimeouts.clear();
+  flushCardStore();
+}
+
+function resolveCardStorePath(): string {
+  return path.join(resolvePluginStateDir(), 'cards.json');
+}
+
+// Schedule a write of all card instances to the card store
+function persistCardInstances(log?: Logger): void {
+  if (cardStoreFlushTimer) return;
+  cardStoreFlushTimer = setTimeout(() => flushCardStore(log), CARD_STORE_FLUSH_DELAY);
+  cardStoreFlushTimer.unref?.();
+}
+
+function flushCardStore(log?: Logger): void {
+  if (cardStoreFlushTimer) {
+    clearTimeout(cardStoreFlushTimer);
+    cardStoreFlushTimer = null;
+  }
+  if (!cardStoreLoaded) return;
+  try {
+    writeCardStore(resolveCardStorePath(), [...cardInstances.values()]);
+  } catch (err: any) {
+    log?.warn?.(`[DingTalk] Failed to persist card store: ${err.message}`);
+  }
+}
+
+// Load persisted card instances once per process, keeping them addressable by ID
+function loadCardStore(log?: Logger): void {
+  if (cardStoreLoaded) return;
+  cardStoreLoaded = true;
+  const now = Date.now();
+  for (const instance of readCardStore(resolveCardStorePath())) {
+    if (now - instance.lastUpdated > CARD_CACHE_TTL || cardInstances.has(instance.cardBizId)) continue;
+    cardInstances.set(instance.cardBizId, instance);
+    if (!instance.finished) restoredUnfinishedCards.add(instance.cardBizId);
+  }
+  log?.debug?.(`[DingTalk] Loaded ${cardInstances.size} card instance(s) from the card store`);
+}
+
+// Mark a card's reply as complete, so it isn't treated as interrupted after a restart
+function markCardFinished(cardBizId: string): void {
+  const instance = cardInstances.get(cardBizId);
+  if (!instance || instance.finished) return;
+  instance.finished = true;
+  persistCardInstances();
+}
+
+// Mark an interactive card as being streamed into by a reply, so a restart before the reply
+// completes closes it as interrupted
+function markCardStreaming(cardBizId: string): void {
+  const instance = cardInstances.get(cardBizId);
+  if (!instance || !instance.finished) return;
+  instance.finished = false;
+  persistCardInstances();
+}
+
+// Close cards a previous run left mid-reply (e.g. a restart while streaming) with an interrupted notice
+async function recoverInterruptedCards(config: DingTalkConfig, log?: Logger): Promise<void> {
+  const unfinished = [...restoredUnfinishedCards]
+    .map((cardBizId) => cardInstances.get(cardBizId))
+    .filter((instance): instance is CardInstance => Boolean(instance && instance.clientId === config.clientId));
+  for (const instance of unfinished) {
+    restoredUnfinishedCards.delete(instance.cardBizId);
+    const partial = instance.lastText && instance.lastText !== THINKING_TEXT ? instance.lastText : '';
+    const text = [partial, CARD_INTERRUPTED_TEXT].filter(Boolean).join('\n\n');
+    try {
+      if (instance.kind === 'ai') {
+        await streamAICard(config, instance.cardBizId, text, { failed: true, log });
+      } else {
+        await updateInteractiveCard(config, instance.cardBizId, text, { log });
+      }
+      log?.info?.(`[DingTalk] Marked interrupted card ${instance.cardBizId} after restart`);
+    } catch (err: any) {
+      log?.warn?.(`[DingTalk] Failed to mark card ${instance.cardBizId} as interrupted: ${err.message}`);
+    }
+    markCardFinished(instance.cardBizId);
+  }
 }
 
-// Helper function to detect markdown and extract title
-function detectMarkdownAndExtractTitle(
+// Render outgoing text: detect markdown, translate it into the dialect DingTalk renders
+// (or into plain text when markdown is off) and pick the message title
+function renderOutgoingText(
   text: string,
   options: SendMessageOptions,
   defaultTitle: string
-): { useMarkdown: boolean; title: string } {
-  const hasMarkdown = /^[#*>-]|[*_`#[\]]/.test(text) || text.includes('\n');
-  const useMarkdown = options.useMarkdown !== false && (options.useMarkdown || hasMarkdown);
+): { useMarkdown: boolean; title: string; text: string } {
+  const hasMarkdown = /^[#*>-]|[*_`#[\]|]/.test(text) || text.includes('\n');
+  const useMarkdown = Boolean(options.useMarkdown !== false && (options.useMarkdown || hasMarkdown));
 
-  const title =
-    options.title ||
-    (useMarkdown
-      ? text
-          .split('\n')[0]
-          .replace(/^[#*\s\->]+/, '')
-          .slice(0, 20) || defaultTitle
-      : defaultTitle);
+  const title = options.title || extractTitle(text, defaultTitle);
+  const rendered = useMarkdown ? toDingTalkMarkdown(text) : hasMarkdown ? toPlainText(text) : text;
 
-  return { useMarkdown, title };
+  return { useMarkdown, title, text: rendered };
+}
+
+// Resolve the configured chunk limit for a send path
+function resolveChunkLimit(config: DingTalkConfig, sendPath: keyof typeof DEFAULT_CHUNK_LIMITS): number {
+  return config.chunkLimits?.[sendPath] || DEFAULT_CHUNK_LIMITS[sendPath];
 }
 
 function getConfig(cfg: ClawdbotConfig, accountId?: string): DingTalkConfig {
@@ -162,33 +811,113 @@ function getConfig(cfg: ClawdbotConfig, accountId?: string): DingTalkConfig {
   return dingtalkCfg;
 }
 
+// Resolve (and create) the plugin's directory under the Clawdbot state directory
+function resolvePluginStateDir(): string {
+  const dir = path.join(getDingTalkRuntime().state.resolveStateDir(), 'dingtalk');
+  fs.mkdirSync(dir, { recursive: true });
+  return dir;
+}
+
 function isConfigured(cfg: ClawdbotConfig, accountId?: string): boolean {
   const config = getConfig(cfg, accountId);
   return Boolean(config.clientId && config.clientSecret);
 }
 
-// Get Access Token with retry logic
+// Get Access Token with retry logic (cached per clientId, single-flight refresh)
 async function getAccessToken(config: DingTalkConfig, log?: Logger): Promise<string> {
-  const now = Date.now();
-  if (accessToken && accessTokenExpiry > now + 60000) {
-    return accessToken;
+  const key = config.clientId;
+  const cached = accessTokens.get(key);
+  if (cached && cached.expiry > Date.now() + ACCESS_TOKEN_REFRESH_MARGIN) {
+    return cached.token;
   }
 
-  const token = await retryWithBackoff(
+  const inflight = accessTokenRefreshes.get(key);
+  if (inflight) {
+    return inflight;
+  }
+
+  const refresh = retryWithBackoff(
     async () => {
       const response = await axios.post<TokenInfo>('https://api.dingtalk.com/v1.0/oauth2/accessToken', {
         appKey: config.clientId,
         appSecret: config.clientSecret,
       });
 
-      accessToken = response.data.accessToken;
-      accessTokenExpiry = now + response.data.expireIn * 1000;
-      return accessToken;
+      // Expiry is measured from when the response arrived, not when the request started
+      accessTokens.set(key, {
+        token: response.data.accessToken,
+        expiry: Date.now() + response.data.expireIn * 1000,
+      });
+      return response.data.accessToken;
     },
     { maxRetries: 3, log }
-  );
+  ).finally(() => {
+    accessTokenRefreshes.delete(key);
+  });
+
+  accessTokenRefreshes.set(key, refresh);
+  return refresh;
+}
+
+// Drop a cached access token so the next call fetches a fresh one.
+// When `token` is given, only that exact token is dropped, so a token refreshed
+// concurrently by another caller is kept.
+function invalidateAccessToken(config: DingTalkConfig, token?: string): void {
+  const cached = accessTokens.get(config.clientId);
+  if (cached && (!token || cached.token === token)) {
+    accessTokens.delete(config.clientId);
+  }
+}
 
-  return token;
+// Run an authenticated API call, refreshing the access token once if DingTalk answers 401
+async function withAccessToken<T>(config: DingTalkConfig, fn: (token: string) => Promise<T>, log?: Logger): Promise<T> {
+  const token = await getAccessToken(config, log);
+  try {
+    return await fn(token);
+  } catch (err: any) {
+    if (err.response?.status !== 401) throw err;
+    log?.debug?.(`[DingTalk] Access token rejected (401) for ${config.clientId}, refreshing`);
+    invalidateAccessToken(config, token);
+    return await fn(await getAccessToken(config, log));
+  }
+}
+
+// Send through the app's rate limiter: sends into one conversation go out in order and, unless
+// `conversationQuota` is false (card updates), count towards that conversation's quota
+function sendRateLimited<P, R>(
+  config: DingTalkConfig,
+  conversationId: string,
+  payload: P,
+  send: (payload: P) => Promise<R>,
+  options: { conversationQuota?: boolean; mergeKey?: string; merge?: (queued: P, next: P) => P | undefined } = {}
+): Promise<R> {
+  if (config.rateLimit?.enabled === false) return send(payload);
+
+  const app = config.clientId;
+  const buckets = [
+    { key: `app:${app}`, perMinute: config.rateLimit?.perAppPerMinute ?? DEFAULT_RATE_LIMITS.perAppPerMinute },
+  ];
+  if (options.conversationQuota !== false) {
+    buckets.push({
+      key: `conversation:${app}:${conversationId}`,
+      perMinute: config.rateLimit?.perConversationPerMinute ?? DEFAULT_RATE_LIMITS.perConversationPerMinute,
+    });
+  }
+  return enqueueRateLimited({
+    scope: app,
+    queueKey: `${app}:${conversationId}`,
+    buckets,
+    payload,
+    send,
+    mergeKey: options.mergeKey,
+    merge: options.merge,
+  });
+}
+
+// Join two queued texts into one message when the result still fits in `limit`
+function mergeQueuedText(queued: string, next: string, limit: number): string | undefined {
+  const merged = `${queued}\n\n${next}`;
+  return merged.length <= limit ? merged : undefined;
 }
 
 // Send proactive message via DingTalk OpenAPI
@@ -217,7 +946,11 @@ async function sendProactiveMessage(
   } else if (
     typeof optionsOrLog === 'object' &&
     optionsOrLog !== null &&
-    ('log' in optionsOrLog || 'useMarkdown' in optionsOrLog || 'title' in optionsOrLog || 'atUserId' in optionsOrLog)
+    ('log' in optionsOrLog ||
+      'useMarkdown' in optionsOrLog ||
+      'title' in optionsOrLog ||
+      'atUserId' in optionsOrLog ||
+      'mentions' in optionsOrLog)
   ) {
     options = optionsOrLog;
   } else {
@@ -225,69 +958,342 @@ async function sendProactiveMessage(
     options = { log: optionsOrLog as Logger };
   }
 
-  const token = await getAccessToken(config, options.log);
+  // Use shared helper function for markdown rendering and title extraction
+  const { useMarkdown, title, text: rendered } = renderOutgoingText(text, options, 'Clawdbot 提醒');
+
+  // The OpenAPI has no @ field, so in groups mentions are kept as text
+  const mentions = [
+    ...(options.atUserId ? [{ userId: options.atUserId, name: options.atUserName || options.atUserId }] : []),
+    ...(options.mentions ?? []),
+  ];
+  const mentionText = target.startsWith('cid') ? formatMentionText(mentions, options.atAll) : '';
+  const mention = mentionText ? ` ${mentionText}` : '';
+
+  // Choose msgKey based on whether we're sending markdown or plain text
+  // Note: DingTalk's proactive message API uses predefined message templates
+  // sampleMarkdown supports markdown formatting, sampleText for plain text
+  const msgKey = useMarkdown ? 'sampleMarkdown' : 'sampleText';
+
+  // Oversized replies go out as several messages, in order
+  const limit = resolveChunkLimit(config, 'proactive');
+  let response: AxiosResponse | undefined;
+  for (const chunk of chunkReplyText(`${rendered}${mention}`, limit)) {
+    // Texts still queued behind the rate limit are sent together
+    const mergeText = (queued: Record<string, unknown>, next: Record<string, unknown>) => {
+      const text = mergeQueuedText(String(queued.text), String(next.text), limit);
+      return text === undefined ? undefined : { ...queued, text };
+    };
+    response = await sendProactivePayload(config, target, msgKey, { title, text: chunk }, options.log, mergeText);
+  }
+  return response as AxiosResponse;
+}
+
+// Send a robot message template to a group (cid...) or a user via DingTalk OpenAPI
+async function sendProactivePayload(
+  config: DingTalkConfig,
+  target: string,
+  msgKey: string,
+  msgParam: Record<string, unknown>,
+  log?: Logger,
+  mergeParams?: (queued: Record<string, unknown>, next: Record<string, unknown>) => Record<string, unknown> | undefined
+): Promise<AxiosResponse> {
   const isGroup = target.startsWith('cid');
 
   const url = isGroup
     ? 'https://api.dingtalk.com/v1.0/robot/groupMessages/send'
     : 'https://api.dingtalk.com/v1.0/robot/oToMessages/batchSend';
 
-  // Use shared helper function for markdown detection and title extraction
-  const { useMarkdown, title } = detectMarkdownAndExtractTitle(text, options, 'Clawdbot 提醒');
+  const send = async (params: Record<string, unknown>) => {
+    const payload: ProactiveMessagePayload = {
+      robotCode: config.robotCode || config.clientId,
+      msgKey,
+      msgParam: JSON.stringify(params),
+    };
 
-  // Choose msgKey based on whether we're sending markdown or plain text
-  // Note: DingTalk's proactive message API uses predefined message templates
-  // sampleMarkdown supports markdown formatting, sampleText for plain text
-  const msgKey = useMarkdown ? 'sampleMarkdown' : 'sampleText';
+    if (isGroup) {
+      payload.openConversationId = target;
+    } else {
+      payload.userIds = [target];
+    }
 
-  const payload: ProactiveMessagePayload = {
-    robotCode: config.robotCode || config.clientId,
-    msgKey,
-    msgParam: JSON.stringify({
-      title,
-      text,
-    }),
+    const result = await withAccessToken(
+      config,
+      (token) =>
+        axios({
+          url,
+          method: 'POST',
+          data: payload,
+          headers: { 'x-acs-dingtalk-access-token': token, 'Content-Type': 'application/json' },
+        }),
+      log
+    );
+    return result.data;
   };
 
-  if (isGroup) {
-    payload.openConversationId = target;
-  } else {
-    payload.userIds = [target];
+  return sendRateLimited(config, target, msgParam, send, {
+    mergeKey: mergeParams ? `proactive:${msgKey}` : undefined,
+    merge: mergeParams,
+  });
+}
+
+// Recall robot messages sent through the OpenAPI, by the processQueryKeys their sends returned
+async function recallProactiveMessages(
+  config: DingTalkConfig,
+  target: string,
+  processQueryKeys: string[],
+  log?: Logger
+): Promise<void> {
+  const robotCode = config.robotCode || config.clientId;
+  const isGroup = target.startsWith('cid');
+  const url = isGroup
+    ? 'https://api.dingtalk.com/v1.0/robot/groupMessages/recall'
+    : 'https://api.dingtalk.com/v1.0/robot/otoMessages/batchRecall';
+  const data = isGroup ? { robotCode, openConversationId: target, processQueryKeys } : { robotCode, processQueryKeys };
+
+  await withAccessToken(
+    config,
+    (token) =>
+      axios({
+        url,
+        method: 'POST',
+        data,
+        headers: { 'x-acs-dingtalk-access-token': token, 'Content-Type': 'application/json' },
+      }),
+    log
+  );
+}
+
+// Add ('reply') or remove ('recall') the "thinking" emoji reaction on an inbound message
+async function callThinkingReaction(
+  config: DingTalkConfig,
+  action: 'reply' | 'recall',
+  message: { msgId: string; conversationId: string },
+  log?: Logger
+): Promise<void> {
+  await withAccessToken(
+    config,
+    (token) =>
+      axios({
+        url: `https://api.dingtalk.com/v1.0/robot/emotion/${action}`,
+        method: 'POST',
+        data: {
+          robotCode: config.robotCode || config.clientId,
+          openMsgId: message.msgId,
+          openConversationId: message.conversationId,
+          emotionType: 2,
+          emotionName: THINKING_REACTION.name,
+          textEmotion: {
+            emotionId: THINKING_REACTION.emotionId,
+            emotionName: THINKING_REACTION.name,
+            text: THINKING_REACTION.name,
+            backgroundId: THINKING_REACTION.backgroundId,
+          },
+        },
+        headers: { 'x-acs-dingtalk-access-token': token, 'Content-Type': 'application/json' },
+      }),
+    log
+  );
+}
+
+// Upload a local file through DingTalk's media upload API, returning its mediaId
+async function uploadMedia(
+  config: DingTalkConfig,
+  filePath: string,
+  mediaType: DingTalkMediaType,
+  options: { fileName?: string; log?: Logger } = {}
+): Promise<string> {
+  const fileName = options.fileName || path.basename(filePath);
+  const buffer = await fs.promises.readFile(filePath);
+  assertMediaSize(mediaType, buffer.length, fileName);
+
+  const response = await withAccessToken(
+    config,
+    async (token) => {
+      const form = new FormData();
+      form.append('media', new Blob([buffer], { type: detectMediaType(filePath).mimeType }), fileName);
+      const result = await axios.post<MediaUploadResponse>('https://oapi.dingtalk.com/media/upload', form, {
+        params: { access_token: token, type: mediaType },
+      });
+      throwOnOapiTokenError(result.data);
+      return result;
+    },
+    options.log
+  );
+
+  if (response.data.errcode || !response.data.media_id) {
+    throw new Error(`[DingTalk] Media upload failed: ${response.data.errmsg || 'no media_id returned'}`);
   }
 
-  const result = await axios({
-    url,
-    method: 'POST',
-    data: payload,
-    headers: { 'x-acs-dingtalk-access-token': token, 'Content-Type': 'application/json' },
-  });
-  return result.data;
+  options.log?.debug?.(`[DingTalk] Uploaded ${mediaType} ${fileName} (mediaId=${response.data.media_id})`);
+  return response.data.media_id;
+}
+
+// Resolve a local path, file:// URL or http(s) URL to a local file path
+async function resolveLocalMediaPath(source: string, log?: Logger): Promise<{ filePath: string; temporary: boolean }> {
+  if (source.startsWith('file://')) {
+    return { filePath: fileURLToPath(source), temporary: false };
+  }
+  if (!/^https?:\/\//i.test(source)) {
+    return { filePath: source, temporary: false };
+  }
+
+  const response = await axios.get<ArrayBuffer>(source, { responseType: 'arraybuffer' });
+  const urlExt = path.extname(new URL(source).pathname);
+  const tempPath = path.join(os.tmpdir(), `dingtalk_${Date.now()}${urlExt || '.bin'}`);
+  await fs.promises.writeFile(tempPath, Buffer.from(response.data));
+  log?.debug?.(`[DingTalk] Fetched remote media ${source} to ${tempPath}`);
+  return { filePath: tempPath, temporary: true };
+}
+
+// Upload an image from a path or URL and return its mediaId (usable as a markdown image URL)
+async function uploadImageSource(config: DingTalkConfig, source: string, log?: Logger): Promise<string> {
+  const { filePath, temporary } = await resolveLocalMediaPath(source, log);
+  try {
+    return await uploadMedia(config, filePath, 'image', { log });
+  } finally {
+    if (temporary) {
+      fs.promises.unlink(filePath).catch(() => undefined);
+    }
+  }
+}
+
+// Upload and send an image, file, audio or video to a group (cid...) or a user
+async function sendProactiveMedia(
+  config: DingTalkConfig,
+  target: string,
+  mediaSource: string,
+  options: SendMediaOptions = {}
+): Promise<AxiosResponse> {
+  const { filePath, temporary } = await resolveLocalMediaPath(mediaSource, options.log);
+  try {
+    const info = detectMediaType(options.fileName || filePath);
+    const fileName = options.fileName || path.basename(filePath);
+
+    let result: AxiosResponse;
+    if (info.mediaType === 'image') {
+      const mediaId = await uploadMedia(config, filePath, 'image', { fileName, log: options.log });
+      result = await sendProactivePayload(config, target, 'sampleImageMsg', { photoURL: mediaId }, options.log);
+    } else if (info.mediaType === 'voice') {
+      const mediaId = await uploadMedia(config, filePath, 'voice', { fileName, log: options.log });
+      const durationMs =
+        options.durationMs ?? estimateAudioDurationMs(await fs.promises.readFile(filePath), info.extension);
+      result = await sendProactivePayload(
+        config,
+        target,
+        'sampleAudio',
+        { mediaId, duration: String(durationMs) },
+        options.log
+      );
+    } else if (info.mediaType === 'video' && options.coverPath) {
+      const videoMediaId = await uploadMedia(config, filePath, 'video', { fileName, log: options.log });
+      const picMediaId = await uploadMedia(config, options.coverPath, 'image', { log: options.log });
+      result = await sendProactivePayload(
+        config,
+        target,
+        'sampleVideo',
+        {
+          videoMediaId,
+          picMediaId,
+          videoType: info.extension,
+          duration: String(Math.round((options.durationMs ?? 0) / 1000)),
+        },
+        options.log
+      );
+    } else {
+      // Plain files, and videos without a cover image (required by sampleVideo). The SDK's sendMedia
+      // has no cover, so only API callers passing coverPath get video messages
+      const mediaId = await uploadMedia(config, filePath, 'file', { fileName, log: options.log });
+      result = await sendProactivePayload(
+        config,
+        target,
+        'sampleFile',
+        { mediaId, fileName, fileType: info.extension },
+        options.log
+      );
+    }
+
+    if (options.caption) {
+      await sendProactiveMessage(config, target, options.caption, { log: options.log });
+    }
+
+    return result;
+  } finally {
+    if (temporary) {
+      fs.promises.unlink(filePath).catch(() => undefined);
+    }
+  }
 }
 
 // Download media file
-async function downloadMedia(config: DingTalkConfig, downloadCode: string, log?: Logger): Promise<MediaFile | null> {
+async function downloadMedia(
+  config: DingTalkConfig,
+  downloadCode: string,
+  log?: Logger,
+  options: { accountId?: string; fileName?: string } = {}
+): Promise<MediaFile | null> {
   if (!config.robotCode) {
     if (log?.error) {
       log.error('[DingTalk] downloadMedia requires robotCode to be configured.');
     }
     return null;
   }
+  const maxBytes = (config.mediaMaxMb ?? DEFAULT_MEDIA_MAX_MB) * 1024 * 1024;
+  let downloadDir: string | undefined;
   try {
-    const token = await getAccessToken(config, log);
-    const response = await axios.post<{ downloadUrl?: string }>(
-      'https://api.dingtalk.com/v1.0/robot/messageFiles/download',
-      { downloadCode, robotCode: config.robotCode },
-      { headers: { 'x-acs-dingtalk-access-token': token } }
+    const response = await withAccessToken(
+      config,
+      (token) =>
+        axios.post<{ downloadUrl?: string }>(
+          'https://api.dingtalk.com/v1.0/robot/messageFiles/download',
+          { downloadCode, robotCode: config.robotCode },
+          { headers: { 'x-acs-dingtalk-access-token': token } }
+        ),
+      log
     );
     const downloadUrl = response.data?.downloadUrl;
     if (!downloadUrl) return null;
-    const mediaResponse = await axios.get(downloadUrl, { responseType: 'arraybuffer' });
-    const contentType = mediaResponse.headers['content-type'] || 'application/octet-stream';
-    const ext = contentType.split('/')[1]?.split(';')[0] || 'bin';
-    const tempPath = path.join(os.tmpdir(), `dingtalk_${Date.now()}.${ext}`);
-    fs.writeFileSync(tempPath, Buffer.from(mediaResponse.data as ArrayBuffer));
-    return { path: tempPath, mimeType: contentType };
+
+    const mediaResponse = await axios.get<Readable>(downloadUrl, { responseType: 'stream' });
+    const declaredSize = Number(mediaResponse.headers['content-length'] || 0);
+    if (declaredSize > maxBytes) {
+      mediaResponse.data.destroy();
+      throw new Error(`file is ${declaredSize} bytes, over the ${maxBytes} byte limit (mediaMaxMb)`);
+    }
+
+    // Each download gets its own directory so the original file name can be kept as is
+    downloadDir = fs.mkdtempSync(path.join(ensureMediaDir(options.accountId), 'dl-'));
+    const partPath = path.join(downloadDir, 'download.part');
+    let received = 0;
+    let head = Buffer.alloc(0);
+    const sizeGuard = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        received += chunk.length;
+        if (head.length < MAGIC_BYTES_LENGTH) head = Buffer.concat([head, chunk]).subarray(0, MAGIC_BYTES_LENGTH);
+        if (received > maxBytes) {
+          callback(new Error(`file exceeds the ${maxBytes} byte limit (mediaMaxMb)`));
+          return;
+        }
+        callback(null, chunk);
+      },
+    });
+    await pipeline(mediaResponse.data, sizeGuard, fs.createWriteStream(partPath));
+
+    // Generic content types are narrowed down from the file's leading bytes
+    const contentType = String(mediaResponse.headers['content-type'] || '')
+      .split(';')[0]
+      .trim();
+    const sniffed = !contentType || contentType === 'application/octet-stream' ? detectFileTypeFromBytes(head) : null;
+    const fileName = options.fileName ? sanitizeFileName(options.fileName) : '';
+    const mimeType =
+      sniffed?.mimeType ||
+      (contentType && contentType !== 'application/octet-stream' ? contentType : '') ||
+      (fileName ? detectMediaType(fileName).mimeType : 'application/octet-stream');
+    const extension = sniffed?.extension || extensionForMimeType(mimeType);
+    const filePath = path.join(downloadDir, fileName || `dingtalk.${extension}`);
+    fs.renameSync(partPath, filePath);
+    return { path: filePath, mimeType };
   } catch (err: any) {
+    if (downloadDir) fs.rmSync(downloadDir, { recursive: true, force: true });
     if (log?.error) {
       log.error('[DingTalk] Failed to download media:', err.message);
     }
@@ -295,23 +1301,128 @@ async function downloadMedia(config: DingTalkConfig, downloadCode: string, log?:
   }
 }
 
+// Point richText media markers at positions in the downloaded list; failed downloads are noted instead
+function renumberMediaMarkers(text: string, positions: number[]): string {
+  return text.replace(/\[(图片|文件)(\d+)(: [^\]]*)?\]/g, (marker, kind: string, index: string, name = '') => {
+    const position = positions[Number(index) - 1];
+    if (position === undefined) return marker;
+    if (position > 0) return `[${kind}${position}${name}]`;
+    return name ? `[${kind}${name}（下载失败）]` : `[${kind}: 下载失败]`;
+  });
+}
+
+// Content of the downloaded text-like files, formatted for the message body
+function inlineTextAttachments(config: DingTalkConfig, mediaFiles: MediaFile[], log?: Logger): string {
+  const maxBytes = (config.textAttachments?.maxSizeKB ?? DEFAULT_TEXT_ATTACHMENT_KB) * 1024;
+  let inlined = '';
+  for (const media of mediaFiles) {
+    if (!isTextAttachment(media.path, media.mimeType)) continue;
+    try {
+      const content = readTextAttachment(media.path, maxBytes);
+      if (content) inlined += `\n\n${formatTextAttachment(path.basename(media.path), content)}`;
+    } catch (err: any) {
+      log?.debug?.(`[DingTalk] Failed to read text attachment ${media.path}: ${err.message}`);
+    }
+  }
+  return inlined;
+}
+
+// Remove a downloaded file together with its download directory
+function removeDownloadedMedia(media: MediaFile): void {
+  const dir = path.dirname(media.path);
+  if (path.basename(dir).startsWith('dl-')) {
+    fs.rmSync(dir, { recursive: true, force: true });
+  } else if (fs.existsSync(media.path)) {
+    fs.unlinkSync(media.path);
+  }
+}
+
+// Extract the message a reply quotes (text, richText, picture or file)
+function extractQuotedMessage(data: DingTalkInboundMessage): QuotedMessageContent | undefined {
+  const replied = data.text?.isReplyMsg ? data.text.repliedMsg : undefined;
+  if (!replied) return undefined;
+
+  const content = replied.content || {};
+  const quoted: QuotedMessageContent = {
+    id: replied.msgId,
+    senderId: replied.senderId,
+    senderName: replied.senderNick,
+    text: '',
+  };
+
+  switch (replied.msgType) {
+    case 'richText': {
+      // Replied richText parts use msgType/content; keep the first picture as the quoted media
+      let text = '';
+      for (const part of content.richText || []) {
+        const partType = part.msgType || part.type;
+        if (partType === 'text') text += part.content ?? part.text ?? '';
+        if (partType === 'picture') {
+          text += '[图片]';
+          quoted.mediaPath ??= part.downloadCode || part.pictureDownloadCode;
+          quoted.mediaType ??= 'image';
+        }
+      }
+      quoted.text = text.trim() || '[富文本消息]';
+      break;
+    }
+    case 'picture':
+      quoted.text = '[图片]';
+      quoted.mediaPath = content.downloadCode || content.pictureDownloadCode;
+      quoted.mediaType = 'image';
+      break;
+    case 'file':
+      quoted.text = `[文件: ${content.fileName || '文件'}]`;
+      quoted.mediaPath = content.downloadCode;
+      quoted.mediaType = 'file';
+      quoted.fileName = content.fileName;
+      break;
+    case 'audio':
+      quoted.text = content.recognition || '[语音消息]';
+      break;
+    case 'video':
+      quoted.text = '[视频]';
+      break;
+    default:
+      quoted.text = content.text?.trim() || `[${replied.msgType || '未知'}消息]`;
+  }
+
+  return quoted;
+}
+
 function extractMessageContent(data: DingTalkInboundMessage): MessageContent {
   const msgtype = data.msgtype || 'text';
 
   // Logic for different message types
   if (msgtype === 'text') {
-    return { text: data.text?.content?.trim() || '', messageType: 'text' };
+    return { text: data.text?.content?.trim() || '', messageType: 'text', quoted: extractQuotedMessage(data) };
   }
 
-  // Improved richText parsing: join all text/at components
+  // richText: join text/at components; embedded pictures and files become numbered markers
+  // ([图片1], [文件2: name]) matching their position in the media list
   if (msgtype === 'richText') {
     const richTextParts = data.content?.richText || [];
+    const media: InboundMediaRef[] = [];
     let text = '';
     for (const part of richTextParts) {
-      if (part.type === 'text' && part.text) text += part.text;
-      if (part.type === 'at' && part.atName) text += `@${part.atName} `;
+      const downloadCode = part.downloadCode || part.pictureDownloadCode;
+      if (part.type === 'at') {
+        if (part.atName) text += `@${part.atName} `;
+      } else if ((part.type === 'picture' || part.type === 'file') && downloadCode) {
+        const isPicture = part.type === 'picture';
+        media.push({ downloadCode, mediaType: isPicture ? 'image' : 'file', fileName: part.fileName });
+        text += isPicture ? `[图片${media.length}]` : `[文件${media.length}: ${part.fileName || '文件'}]`;
+      } else if (part.text) {
+        text += part.text;
+      }
     }
-    return { text: text.trim() || '[富文本消息]', messageType: 'richText' };
+    return {
+      text: text.trim() || '[富文本消息]',
+      mediaPath: media[0]?.downloadCode,
+      mediaType: media[0]?.mediaType,
+      media: media.length > 0 ? media : undefined,
+      messageType: 'richText',
+    };
   }
 
   if (msgtype === 'picture') {
@@ -336,6 +1447,7 @@ function extractMessageContent(data: DingTalkInboundMessage): MessageContent {
       text: `[文件: ${data.content?.fileName || '文件'}]`,
       mediaPath: data.content?.downloadCode,
       mediaType: 'file',
+      fileName: data.content?.fileName,
       messageType: 'file',
     };
   }
@@ -344,36 +1456,127 @@ function extractMessageContent(data: DingTalkInboundMessage): MessageContent {
   return { text: data.text?.content?.trim() || `[${msgtype}消息]`, messageType: msgtype };
 }
 
-// Send message via sessionWebhook
+// Send message via sessionWebhook; resolves to the webhook's response to the last chunk sent.
+// `conversationId` is the proactive target of the same conversation (openConversationId or
+// userId), so both send paths share one rate limit bucket; without it the webhook URL is the bucket.
 async function sendBySession(
   config: DingTalkConfig,
   sessionWebhook: string,
   text: string,
   options: SendMessageOptions = {}
 ): Promise<AxiosResponse> {
-  const token = await getAccessToken(config, options.log);
-  
-  // Use shared helper function for markdown detection and title extraction
-  const { useMarkdown, title } = detectMarkdownAndExtractTitle(text, options, 'Clawdbot 消息');
-
-  let body: SessionWebhookResponse;
-  if (useMarkdown) {
-    let finalText = text;
-    if (options.atUserId) finalText = `${finalText} @${options.atUserId}`;
-    body = { msgtype: 'markdown', markdown: { title, text: finalText } };
-  } else {
-    body = { msgtype: 'text', text: { content: text } };
+  const result = await sendSessionChunks(config, sessionWebhook, text, options);
+  if (result.error) throw result.error;
+  return result.response;
+}
+
+// Send the chunks of a reply via sessionWebhook. A failure of the first chunk throws; after that,
+// sending stops at the first rejected chunk and the rest is reported as unsent.
+async function sendSessionChunks(
+  config: DingTalkConfig,
+  sessionWebhook: string,
+  text: string,
+  options: SendMessageOptions
+): Promise<SessionSendResult> {
+  // Use shared helper function for markdown rendering and title extraction
+  const { useMarkdown, title, text: rendered } = renderOutgoingText(text, options, 'Clawdbot 消息');
+
+  // Mentions with a userId go into the at field; names nobody could be matched to stay text only
+  const atUserIds = [options.atUserId, ...(options.mentions ?? []).map((mention) => mention.userId)].filter(
+    (userId, index, all): userId is string => !!userId && all.indexOf(userId) === index
+  );
+  const textMentions = (options.mentions ?? []).filter((mention) => !mention.userId);
+
+  // Oversized replies go out as several messages, in order; only the first one @-mentions
+  const limit = resolveChunkLimit(config, 'session');
+  const chunks = chunkReplyText(rendered, limit);
+  let response: { errcode?: number; errmsg?: string } | undefined;
+  for (const [index, chunk] of chunks.entries()) {
+    const mentionsChunk = index === 0;
+    const textMention = mentionsChunk ? formatMentionText(textMentions) : '';
+    const mentioned = mentionsChunk && (atUserIds.length > 0 || !!options.atAll);
+
+    let body: SessionWebhookResponse;
+    if (useMarkdown) {
+      // Markdown only highlights mentions written into the text as @userId
+      const idMentions = mentionsChunk ? atUserIds.map((userId) => `@${userId}`).join(' ') : '';
+      const finalText = [chunk, idMentions, textMention].filter(Boolean).join(' ');
+      body = { msgtype: 'markdown', markdown: { title, text: finalText } };
+    } else {
+      body = { msgtype: 'text', text: { content: textMention ? `${chunk} ${textMention}` : chunk } };
+    }
+
+    if (mentioned) body.at = { atUserIds, isAtAll: !!options.atAll };
+
+    const send = async (data: SessionWebhookResponse) => {
+      const result = await withAccessToken(
+        config,
+        (token) =>
+          axios<{ errcode?: number; errmsg?: string }>({
+            url: sessionWebhook,
+            method: 'POST',
+            data,
+            headers: { 'x-acs-dingtalk-access-token': token, 'Content-Type': 'application/json' },
+          }),
+        options.log
+      );
+      return result.data;
+    };
+    try {
+      response = await sendRateLimited(config, options.conversationId ?? sessionWebhook, body, send, {
+        mergeKey: `session:${sessionWebhook}`,
+        merge: (queued, next) => mergeSessionBodies(queued, next, limit),
+      });
+    } catch (err: any) {
+      if (index === 0) throw err;
+      return { response, delivered: index, unsent: chunks.slice(index), error: err, useMarkdown, title };
+    }
+    if (response?.errcode) {
+      return { response, delivered: index, unsent: chunks.slice(index), useMarkdown, title };
+    }
   }
+  return { response, delivered: chunks.length, unsent: [], useMarkdown, title };
+}
 
-  if (options.atUserId) body.at = { atUserIds: [options.atUserId], isAtAll: false };
+// Merge two queued session webhook bodies of the same type; mentions are never merged
+function mergeSessionBodies(
+  queued: SessionWebhookResponse,
+  next: SessionWebhookResponse,
+  limit: number
+): SessionWebhookResponse | undefined {
+  if (queued.at || next.at || queued.msgtype !== next.msgtype) return undefined;
+  if (queued.markdown && next.markdown) {
+    const text = mergeQueuedText(queued.markdown.text, next.markdown.text, limit);
+    return text === undefined ? undefined : { ...queued, markdown: { ...queued.markdown, text } };
+  }
+  if (queued.text && next.text) {
+    const content = mergeQueuedText(queued.text.content, next.text.content, limit);
+    return content === undefined ? undefined : { ...queued, text: { content } };
+  }
+  return undefined;
+}
 
-  const result = await axios({
-    url: sessionWebhook,
-    method: 'POST',
-    data: body,
-    headers: { 'x-acs-dingtalk-access-token': token, 'Content-Type': 'application/json' },
-  });
-  return result.data;
+// Build StandardCard data: title header, text/markdown body and optional action blocks
+function buildCardData(title: string, text: string, useMarkdown: boolean, actions?: CardAction[]): InteractiveCardData {
+  return {
+    config: {
+      autoLayout: true,
+      enableForward: true,
+    },
+    header: {
+      title: {
+        type: 'text',
+        text: title,
+      },
+    },
+    contents: [
+      {
+        type: useMarkdown ? 'markdown' : 'text',
+        text: text,
+      },
+      ...buildCardActionContents(actions ?? []),
+    ],
+  };
 }
 
 // Send interactive card (for initial card creation)
@@ -389,34 +1592,16 @@ async function sendInteractiveCard(
     throw new Error('[DingTalk] robotCode or clientId is required for sending interactive cards');
   }
 
-  const token = await getAccessToken(config, options.log);
   const isGroup = conversationId.startsWith('cid');
   
   // Generate unique card business ID using crypto.randomUUID
   const cardBizId = `card_${randomUUID()}`;
   
-  // Extract title and detect markdown
-  const { useMarkdown, title } = detectMarkdownAndExtractTitle(text, options, 'Clawdbot 消息');
+  // Extract title and render markdown
+  const { useMarkdown, title, text: rendered } = renderOutgoingText(text, options, 'Clawdbot 消息');
   
   // Build card data structure with markdown support
-  const cardData: InteractiveCardData = {
-    config: {
-      autoLayout: true,
-      enableForward: true,
-    },
-    header: {
-      title: {
-        type: 'text',
-        text: title,
-      },
-    },
-    contents: [
-      {
-        type: useMarkdown ? 'markdown' : 'text',
-        text: text,
-      },
-    ],
-  };
+  const cardData = buildCardData(title, rendered, useMarkdown, options.actions);
   
   // Build request payload
   const payload: InteractiveCardSendRequest = {
@@ -425,6 +1610,11 @@ async function sendInteractiveCard(
     robotCode,
     cardData: JSON.stringify(cardData),
   };
+
+  // Route button/form callbacks for this card back over Stream
+  if (config.cardCallbackRouteKey) {
+    payload.callbackRouteKey = config.cardCallbackRouteKey;
+  }
   
   if (isGroup) {
     payload.openConversationId = conversationId;
@@ -436,16 +1626,23 @@ async function sendInteractiveCard(
   const apiUrl =
     config.cardSendApiUrl || 'https://api.dingtalk.com/v1.0/im/v1.0/robot/interactiveCards/send';
   
-  const result = await retryWithBackoff(
-    async () => {
-      return await axios({
-        url: apiUrl,
-        method: 'POST',
-        data: payload,
-        headers: { 'x-acs-dingtalk-access-token': token, 'Content-Type': 'application/json' },
-      });
-    },
-    { maxRetries: 3, log: options.log }
+  const result = await sendRateLimited(config, conversationId, payload, (data) =>
+    retryWithBackoff(
+      async () => {
+        return await withAccessToken(
+          config,
+          (token) =>
+            axios({
+              url: apiUrl,
+              method: 'POST',
+              data,
+              headers: { 'x-acs-dingtalk-access-token': token, 'Content-Type': 'application/json' },
+            }),
+          options.log
+        );
+      },
+      { maxRetries: 3, log: options.log }
+    )
   );
   
   // Cache card instance for future updates
@@ -454,7 +1651,13 @@ async function sendInteractiveCard(
     conversationId,
     createdAt: Date.now(),
     lastUpdated: Date.now(),
+    kind: 'interactive',
+    clientId: config.clientId,
+    lastText: text,
+    // Complete as sent; reply streams mark their cards as streaming until the reply is done
+    finished: true,
   });
+  persistCardInstances(options.log);
   
   return { cardBizId, response: result.data };
 }
@@ -466,30 +1669,11 @@ async function updateInteractiveCard(
   text: string,
   options: SendMessageOptions = {}
 ): Promise<any> {
-  const token = await getAccessToken(config, options.log);
-  
-  // Extract title and detect markdown
-  const { useMarkdown, title } = detectMarkdownAndExtractTitle(text, options, 'Clawdbot 消息');
+  // Extract title and render markdown
+  const { useMarkdown, title, text: rendered } = renderOutgoingText(text, options, 'Clawdbot 消息');
   
   // Build updated card data with markdown support
-  const cardData: InteractiveCardData = {
-    config: {
-      autoLayout: true,
-      enableForward: true,
-    },
-    header: {
-      title: {
-        type: 'text',
-        text: title,
-      },
-    },
-    contents: [
-      {
-        type: useMarkdown ? 'markdown' : 'text',
-        text: text,
-      },
-    ],
-  };
+  const cardData = buildCardData(title, rendered, useMarkdown, options.actions);
   
   // Build update request
   const payload: InteractiveCardUpdateRequest = {
@@ -503,35 +1687,45 @@ async function updateInteractiveCard(
   // Use configurable API URL with retry logic
   const apiUrl = config.cardUpdateApiUrl || 'https://api.dingtalk.com/v1.0/im/robots/interactiveCards';
   
-  try {
-    const result = await retryWithBackoff(
+  // Updates carry the full card, so a queued update is simply replaced by a newer one
+  const conversationId = cardInstances.get(cardBizId)?.conversationId ?? cardBizId;
+  const send = (data: InteractiveCardUpdateRequest) =>
+    retryWithBackoff(
       async () => {
-        return await axios({
-          url: apiUrl,
-          method: 'PUT',
-          data: payload,
-          headers: { 'x-acs-dingtalk-access-token': token, 'Content-Type': 'application/json' },
-        });
+        return await withAccessToken(
+          config,
+          (token) =>
+            axios({
+              url: apiUrl,
+              method: 'PUT',
+              data,
+              headers: { 'x-acs-dingtalk-access-token': token, 'Content-Type': 'application/json' },
+            }),
+          options.log
+        );
       },
       { maxRetries: 3, log: options.log }
     );
+
+  try {
+    const result = await sendRateLimited(config, conversationId, payload, send, {
+      conversationQuota: false,
+      mergeKey: `card:${cardBizId}`,
+      merge: (_queued, next) => next,
+    });
     
     // Update cache on success
     const instance = cardInstances.get(cardBizId);
     if (instance) {
       instance.lastUpdated = Date.now();
+      instance.lastText = text;
+      persistCardInstances(options.log);
     }
     
     return result.data;
   } catch (err: any) {
     // Remove card from cache on terminal errors (404, 410, etc.)
-    const statusCode = err.response?.status;
-    if (statusCode === 404 || statusCode === 410 || statusCode === 403) {
-      options.log?.debug?.(
-        `[DingTalk] Removing card ${cardBizId} from cache due to error ${statusCode}`
-      );
-      cardInstances.delete(cardBizId);
-    }
+    forgetCardOnTerminalError(cardBizId, err, options.log);
     throw err;
   }
 }
@@ -552,60 +1746,326 @@ async function updateInteractiveCardThrottled(
   if (existingTimeout) {
     clearTimeout(existingTimeout);
   }
-  
-  // If enough time has passed, update immediately
-  if (timeSinceLastUpdate >= CARD_UPDATE_MIN_INTERVAL) {
-    cardUpdateTimestamps.set(cardBizId, now);
-    const result = await updateInteractiveCard(config, cardBizId, text, options);
-    
-    // Set timeout to detect when updates are complete
-    const timeout = setTimeout(() => {
-      cardUpdateTimeouts.delete(cardBizId);
-      options.log?.debug?.(`[DingTalk] Card ${cardBizId} finalized after inactivity timeout`);
-    }, CARD_UPDATE_TIMEOUT);
-    
-    cardUpdateTimeouts.set(cardBizId, timeout);
-    return result;
-  } else {
-    // Schedule update after the minimum interval
-    return new Promise((resolve, reject) => {
-      const delay = CARD_UPDATE_MIN_INTERVAL - timeSinceLastUpdate;
-      const timeout = setTimeout(async () => {
-        try {
-          cardUpdateTimestamps.set(cardBizId, Date.now());
-          const result = await updateInteractiveCard(config, cardBizId, text, options);
-          
-          // Set inactivity timeout
-          const inactivityTimeout = setTimeout(() => {
-            cardUpdateTimeouts.delete(cardBizId);
-            options.log?.debug?.(`[DingTalk] Card ${cardBizId} finalized after inactivity timeout`);
-          }, CARD_UPDATE_TIMEOUT);
-          
-          cardUpdateTimeouts.set(cardBizId, inactivityTimeout);
-          resolve(result);
-        } catch (err) {
-          reject(err);
-        }
-      }, delay);
-      
-      cardUpdateTimeouts.set(cardBizId, timeout);
+  
+  // If enough time has passed, update immediately
+  if (timeSinceLastUpdate >= CARD_UPDATE_MIN_INTERVAL) {
+    cardUpdateTimestamps.set(cardBizId, now);
+    const result = await updateInteractiveCard(config, cardBizId, text, options);
+    
+    // Set timeout to detect when updates are complete
+    const timeout = setTimeout(() => {
+      cardUpdateTimeouts.delete(cardBizId);
+      markCardFinished(cardBizId);
+      options.log?.debug?.(`[DingTalk] Card ${cardBizId} finalized after inactivity timeout`);
+    }, CARD_UPDATE_TIMEOUT);
+    
+    cardUpdateTimeouts.set(cardBizId, timeout);
+    return result;
+  } else {
+    // Schedule update after the minimum interval
+    return new Promise((resolve, reject) => {
+      const delay = CARD_UPDATE_MIN_INTERVAL - timeSinceLastUpdate;
+      const timeout = setTimeout(async () => {
+        try {
+          cardUpdateTimestamps.set(cardBizId, Date.now());
+          const result = await updateInteractiveCard(config, cardBizId, text, options);
+          
+          // Set inactivity timeout
+          const inactivityTimeout = setTimeout(() => {
+            cardUpdateTimeouts.delete(cardBizId);
+            markCardFinished(cardBizId);
+            options.log?.debug?.(`[DingTalk] Card ${cardBizId} finalized after inactivity timeout`);
+          }, CARD_UPDATE_TIMEOUT);
+          
+          cardUpdateTimeouts.set(cardBizId, inactivityTimeout);
+          resolve(result);
+        } catch (err) {
+          reject(err);
+        }
+      }, delay);
+      
+      cardUpdateTimeouts.set(cardBizId, timeout);
+    });
+  }
+}
+
+// Write card content across one or more cards: content beyond the card limit moves to
+// continuation cards, and only cards whose chunk changed are updated
+async function updateCardSequence(
+  config: DingTalkConfig,
+  conversationId: string,
+  cards: Array<{ cardBizId: string; text: string }>,
+  content: string,
+  options: SendMessageOptions = {}
+): Promise<void> {
+  const chunks = chunkReplyText(content, resolveChunkLimit(config, 'card'));
+  for (const [index, chunk] of chunks.entries()) {
+    // Actions belong on the last card of the sequence
+    const isLast = index === chunks.length - 1;
+    const cardOptions = { ...options, actions: isLast ? options.actions : undefined };
+    const card = cards[index];
+    if (!card) {
+      const result = await sendInteractiveCard(config, conversationId, chunk, cardOptions);
+      markCardStreaming(result.cardBizId);
+      cards.push({ cardBizId: result.cardBizId, text: chunk });
+    } else if (card.text !== chunk || isLast) {
+      await updateInteractiveCard(config, card.cardBizId, chunk, cardOptions);
+      card.text = chunk;
+    }
+  }
+}
+
+// Drop a card from the cache when DingTalk reports it gone or no longer writable
+function forgetCardOnTerminalError(cardBizId: string, err: any, log?: Logger): void {
+  const statusCode = err.response?.status;
+  if (statusCode === 404 || statusCode === 410 || statusCode === 403) {
+    log?.debug?.(`[DingTalk] Removing card ${cardBizId} from cache due to error ${statusCode}`);
+    cardInstances.delete(cardBizId);
+    persistCardInstances(log);
+  }
+}
+
+// Call a DingTalk card API with the access token header and retry logic, through the rate limiter.
+// Only card creation counts towards the conversation quota; calls sharing a `mergeKey` replace
+// each other while queued.
+async function callCardApi(
+  config: DingTalkConfig,
+  method: 'POST' | 'PUT',
+  url: string,
+  data: unknown,
+  limit: { conversationId: string; create?: boolean; mergeKey?: string },
+  log?: Logger
+): Promise<any> {
+  const send = (payload: unknown) =>
+    retryWithBackoff(
+      async () => {
+        return await withAccessToken(
+          config,
+          (token) =>
+            axios({
+              url,
+              method,
+              data: payload,
+              headers: { 'x-acs-dingtalk-access-token': token, 'Content-Type': 'application/json' },
+            }),
+          log
+        );
+      },
+      { maxRetries: 3, log }
+    );
+  const result = await sendRateLimited(config, limit.conversationId, data, send, {
+    conversationQuota: Boolean(limit.create),
+    mergeKey: limit.mergeKey,
+    merge: limit.mergeKey ? (_queued, next) => next : undefined,
+  });
+  return result.data;
+}
+
+// Create an AI card instance and deliver it to a group (openConversationId) or user
+async function createAICard(
+  config: DingTalkConfig,
+  conversationId: string,
+  options: { log?: Logger } = {}
+): Promise<{ cardBizId: string; response: any }> {
+  const robotCode = config.robotCode || config.clientId;
+  if (!robotCode) {
+    throw new Error('[DingTalk] robotCode or clientId is required for sending AI cards');
+  }
+
+  const isGroup = conversationId.startsWith('cid');
+  const cardBizId = `aicard_${randomUUID()}`;
+
+  const payload: AICardCreateRequest = {
+    cardTemplateId: config.aiCardTemplateId || DEFAULT_AI_CARD_TEMPLATE_ID,
+    outTrackId: cardBizId,
+    cardData: {
+      cardParamMap: {
+        config: JSON.stringify({ autoLayout: true, enableForward: true }),
+        flowStatus: AI_CARD_STATUS.PROCESSING,
+        [config.aiCardContentKey || DEFAULT_AI_CARD_CONTENT_KEY]: '',
+      },
+    },
+    callbackType: 'STREAM',
+    userIdType: 1,
+    openSpaceId: isGroup ? `dtv1.card//IM_GROUP.${conversationId}` : `dtv1.card//IM_ROBOT.${conversationId}`,
+  };
+
+  if (config.cardCallbackRouteKey) {
+    payload.callbackRouteKey = config.cardCallbackRouteKey;
+  }
+
+  if (isGroup) {
+    payload.imGroupOpenSpaceModel = { supportForward: true };
+    payload.imGroupOpenDeliverModel = { robotCode };
+  } else {
+    payload.imRobotOpenSpaceModel = { supportForward: true };
+    payload.imRobotOpenDeliverModel = { spaceType: 'IM_ROBOT', robotCode };
+  }
+
+  const response = await callCardApi(
+    config,
+    'POST',
+    'https://api.dingtalk.com/v1.0/card/instances/createAndDeliver',
+    payload,
+    { conversationId, create: true },
+    options.log
+  );
+
+  cardInstances.set(cardBizId, {
+    cardBizId,
+    conversationId,
+    createdAt: Date.now(),
+    lastUpdated: Date.now(),
+    kind: 'ai',
+    flowStatus: AI_CARD_STATUS.PROCESSING,
+    clientId: config.clientId,
+  });
+  persistCardInstances(options.log);
+
+  return { cardBizId, response };
+}
+
+// Set an AI card's flow status, optionally writing final card parameters along with it
+async function updateAICardStatus(
+  config: DingTalkConfig,
+  cardBizId: string,
+  flowStatus: AICardFlowStatus,
+  params: Record<string, string> = {},
+  log?: Logger
+): Promise<void> {
+  const payload: AICardUpdateRequest = {
+    outTrackId: cardBizId,
+    cardData: { cardParamMap: { ...params, flowStatus } },
+    cardUpdateOptions: { updateCardDataByKey: true },
+  };
+  const conversationId = cardInstances.get(cardBizId)?.conversationId ?? cardBizId;
+  await callCardApi(config, 'PUT', 'https://api.dingtalk.com/v1.0/card/instances', payload, { conversationId }, log);
+
+  const instance = cardInstances.get(cardBizId);
+  if (instance) {
+    instance.flowStatus = flowStatus;
+    instance.lastUpdated = Date.now();
+    instance.finished = flowStatus === AI_CARD_STATUS.FINISHED || flowStatus === AI_CARD_STATUS.FAILED;
+    persistCardInstances(log);
+  }
+}
+
+// Push the full current content of an AI card through the streaming API
+async function streamAICard(
+  config: DingTalkConfig,
+  cardBizId: string,
+  content: string,
+  options: { finalize?: boolean; failed?: boolean; log?: Logger } = {}
+): Promise<void> {
+  const key = config.aiCardContentKey || DEFAULT_AI_CARD_CONTENT_KEY;
+
+  try {
+    // The card has to enter the inputting state before it accepts streamed content
+    const instance = cardInstances.get(cardBizId);
+    if (instance && instance.flowStatus === AI_CARD_STATUS.PROCESSING) {
+      await updateAICardStatus(config, cardBizId, AI_CARD_STATUS.INPUTTING, {}, options.log);
+    }
+
+    const payload: AICardStreamingRequest = {
+      outTrackId: cardBizId,
+      guid: randomUUID(),
+      key,
+      content: toDingTalkMarkdown(content),
+      isFull: true,
+      isFinalize: Boolean(options.finalize || options.failed),
+      isError: Boolean(options.failed),
+    };
+    // Streaming pushes carry the full content, so a queued push is replaced by a newer one
+    const limit = { conversationId: instance?.conversationId ?? cardBizId, mergeKey: `aicard:${cardBizId}` };
+    await callCardApi(config, 'PUT', 'https://api.dingtalk.com/v1.0/card/streaming', payload, limit, options.log);
+
+    if (instance) {
+      instance.lastUpdated = Date.now();
+      instance.lastText = content;
+      persistCardInstances(options.log);
+    }
+
+    // Persist the final content with the terminal status so the card renders it after the stream closes
+    if (options.finalize || options.failed) {
+      const status = options.failed ? AI_CARD_STATUS.FAILED : AI_CARD_STATUS.FINISHED;
+      await updateAICardStatus(config, cardBizId, status, { [key]: toDingTalkMarkdown(content) }, options.log);
+    }
+  } catch (err: any) {
+    forgetCardOnTerminalError(cardBizId, err, options.log);
+    throw err;
+  }
+}
+
+// Close an AI card: finished with the final content, or failed with an error note
+async function finishAICard(
+  config: DingTalkConfig,
+  cardBizId: string,
+  content: string,
+  options: { failed?: boolean; log?: Logger } = {}
+): Promise<void> {
+  if (cardInstances.get(cardBizId)?.finished) return;
+  const text = options.failed ? [content, '❌ 回复生成失败'].filter(Boolean).join('\n\n') : content;
+  await streamAICard(config, cardBizId, text, { finalize: !options.failed, failed: options.failed, log: options.log });
+}
+
+// Write AI card content across one or more AI cards: content beyond the card limit moves to
+// continuation cards, and only cards whose chunk changed are streamed. The cards stay open
+// until finishAICardSequence closes them.
+async function updateAICardSequence(
+  config: DingTalkConfig,
+  conversationId: string,
+  cards: Array<{ cardBizId: string; text: string }>,
+  content: string,
+  log?: Logger
+): Promise<void> {
+  const chunks = chunkReplyText(content, resolveChunkLimit(config, 'card'));
+  for (const [index, chunk] of chunks.entries()) {
+    if (!cards[index]) {
+      const result = await createAICard(config, conversationId, { log });
+      cards.push({ cardBizId: result.cardBizId, text: '' });
+    }
+    const card = cards[index];
+    if (card.text !== chunk) {
+      await streamAICard(config, card.cardBizId, chunk, { log });
+      card.text = chunk;
+    }
+  }
+}
+
+// Close every card of an AI card sequence with its final chunk; a failed run marks the last card failed
+async function finishAICardSequence(
+  config: DingTalkConfig,
+  conversationId: string,
+  cards: Array<{ cardBizId: string; text: string }>,
+  content: string,
+  options: { failed?: boolean; log?: Logger } = {}
+): Promise<void> {
+  await updateAICardSequence(config, conversationId, cards, content, options.log);
+  const chunks = chunkReplyText(content, resolveChunkLimit(config, 'card'));
+  for (const [index, card] of cards.entries()) {
+    const isLast = index === cards.length - 1;
+    await finishAICard(config, card.cardBizId, chunks[index] ?? '', {
+      failed: options.failed && isLast,
+      log: options.log,
     });
   }
 }
 
-// Send message with automatic mode selection (text/markdown/card)
+// Send message with automatic mode selection (text/markdown/card/aicard)
 async function sendMessage(
   config: DingTalkConfig,
   conversationId: string,
   text: string,
-  options: SendMessageOptions & { cardBizId?: string; sessionWebhook?: string } = {}
+  options: SendMessageOptions & { cardBizId?: string; sessionWebhook?: string; finalize?: boolean } = {}
 ): Promise<{ ok: boolean; cardBizId?: string; error?: string }> {
   try {
     const messageType = config.messageType || 'markdown';
+    // Text mode sends the plain-text rendering of markdown replies
+    const textOptions = messageType === 'text' ? { ...options, useMarkdown: false } : options;
     
     // If sessionWebhook is provided, use session-based sending (for replies during conversation)
     if (options.sessionWebhook) {
-      await sendBySession(config, options.sessionWebhook, text, options);
+      await sendBySession(config, options.sessionWebhook, text, { ...textOptions, conversationId });
       return { ok: true };
     }
     
@@ -622,8 +2082,19 @@ async function sendMessage(
       }
     }
     
+    // For AI card mode: stream the full text into the card, closing it when `finalize` is set
+    if (messageType === 'aicard') {
+      const cardBizId = options.cardBizId || (await createAICard(config, conversationId, options)).cardBizId;
+      if (options.finalize) {
+        await finishAICard(config, cardBizId, text, options);
+      } else {
+        await streamAICard(config, cardBizId, text, options);
+      }
+      return { ok: true, cardBizId };
+    }
+
     // For text/markdown mode (backward compatibility)
-    await sendProactiveMessage(config, conversationId, text, options);
+    await sendProactiveMessage(config, conversationId, text, textOptions);
     return { ok: true };
   } catch (err: any) {
     options.log?.error?.(`[DingTalk] Send message failed: ${err.message}`);
@@ -631,9 +2102,110 @@ async function sendMessage(
   }
 }
 
+// Reply inside a conversation: through the session webhook while it is usable, otherwise
+// proactively to the group (openConversationId) or user. A webhook that is about to expire
+// or gets rejected is dropped from the target, so later replies go proactive directly.
+async function sendConversationReply(
+  config: DingTalkConfig,
+  target: ConversationReplyTarget,
+  text: string,
+  options: SendMessageOptions = {}
+): Promise<AxiosResponse> {
+  if (target.sessionWebhook) {
+    const expiresAt = target.sessionWebhookExpiresAt;
+    if (expiresAt && Date.now() > expiresAt - SESSION_WEBHOOK_EXPIRY_MARGIN) {
+      options.log?.info?.(
+        `[DingTalk] Session webhook for ${target.to} expires at ${new Date(expiresAt).toISOString()}, falling back to proactive messages`
+      );
+      target.sessionWebhook = undefined;
+    } else {
+      let rejection: { reason: string; partial?: SessionSendResult };
+      try {
+        const result = await sendSessionChunks(config, target.sessionWebhook, text, {
+          ...options,
+          conversationId: target.to,
+        });
+        if (result.unsent.length === 0) return result.response;
+        const reason = result.error
+          ? webhookRejectionReason(result.error)
+          : `errcode ${result.response?.errcode}: ${result.response?.errmsg}`;
+        if (!reason) throw result.error;
+        rejection = { reason, partial: result.delivered > 0 ? result : undefined };
+      } catch (err: any) {
+        const reason = webhookRejectionReason(err);
+        if (!reason) throw err;
+        rejection = { reason };
+      }
+      options.log?.info?.(
+        `[DingTalk] Session webhook for ${target.to} rejected the reply (${rejection.reason}), falling back to proactive messages`
+      );
+      target.sessionWebhook = undefined;
+
+      // Part of the reply (with its mentions) already went out: the rest is sent proactively,
+      // as the chunks were already rendered and numbered
+      if (rejection.partial) {
+        const { unsent, useMarkdown, title } = rejection.partial;
+        const msgKey = useMarkdown ? 'sampleMarkdown' : 'sampleText';
+        let response: AxiosResponse | undefined;
+        for (const chunk of unsent) {
+          response = await sendProactivePayload(config, target.to, msgKey, { title, text: chunk }, options.log);
+        }
+        return response as AxiosResponse;
+      }
+    }
+  }
+  return sendProactiveMessage(config, target.to, text, options);
+}
+
+// Why the session webhook refused a request (HTTP 4xx), or null for errors that aren't a rejection
+function webhookRejectionReason(err: any): string | null {
+  const status = err?.response?.status;
+  return status && status >= 400 && status < 500 ? `HTTP ${status}` : null;
+}
+
+// Send reply media attachments into a conversation one by one, preserving order
+async function deliverReplyMedia(
+  config: DingTalkConfig,
+  to: string,
+  mediaList: string[],
+  log?: Logger
+): Promise<{ ok: boolean; error?: string }> {
+  const errors: string[] = [];
+  for (const mediaUrl of mediaList) {
+    try {
+      await sendProactiveMedia(config, to, mediaUrl, { log });
+    } catch (err: any) {
+      log?.error?.(`[DingTalk] Failed to send reply media ${mediaUrl}: ${err.message}`);
+      errors.push(err.message);
+    }
+  }
+  return errors.length > 0 ? { ok: false, error: errors.join('; ') } : { ok: true };
+}
+
+// Whether a sender may run control commands: senders listed in allowFrom (the group's own list in
+// groups) may. Without a list, everyone who passed the DM or group access checks may.
+function resolveCommandAuthorized(
+  cfg: ClawdbotConfig,
+  allowFrom: string[] | undefined,
+  senderId: string,
+  dmPolicy?: string
+): boolean {
+  const allow = normalizeAllowFrom(allowFrom);
+  // Under dmPolicy allowlist/pairing the sender has already been admitted (allowFrom or pairing store);
+  // open DMs and groups without an allowlist admit everyone
+  const admitted = (dmPolicy !== undefined && dmPolicy !== 'open') || !allow.hasEntries;
+  return getDingTalkRuntime().channel.commands.resolveCommandAuthorizedFromAuthorizers({
+    useAccessGroups: cfg.commands?.useAccessGroups !== false,
+    authorizers: [
+      { configured: allow.hasEntries, allowed: isSenderAllowed({ allow, senderId }) },
+      { configured: admitted, allowed: true },
+    ],
+  });
+}
+
 // Message handler
 async function handleDingTalkMessage(params: HandleDingTalkMessageParams): Promise<void> {
-  const { cfg, accountId, data, sessionWebhook, log, dingtalkConfig } = params;
+  const { cfg, accountId, data, sessionWebhook, log, dingtalkConfig, cardAction } = params;
   const rt = getDingTalkRuntime();
 
   log?.debug?.('[DingTalk] Full Inbound Data:', JSON.stringify(maskSensitiveData(data)));
@@ -644,7 +2216,11 @@ async function handleDingTalkMessage(params: HandleDingTalkMessageParams): Promi
     return;
   }
 
-  const content = extractMessageContent(data);
+  // /help card buttons carry the command to run
+  const actionCommand = cardAction ? parseCommandAction(cardAction.actionId) : null;
+  const content: MessageContent = cardAction
+    ? { text: actionCommand ?? formatCardActionText(cardAction), messageType: 'cardAction' }
+    : extractMessageContent(data);
   if (!content.text) return;
 
   const isDirect = data.conversationType === '1';
@@ -653,6 +2229,12 @@ async function handleDingTalkMessage(params: HandleDingTalkMessageParams): Promi
   const groupId = data.conversationId;
   const groupName = data.conversationTitle || 'Group';
 
+  // The bot's own @name is noise for the agent; the other mentioned users are passed on
+  const { text: mentionFreeText, mentioned } = cardAction
+    ? { text: content.text, mentioned: [] }
+    : extractInboundMentions(data, content.text, getConversationParticipants(accountId, groupId));
+  content.text = mentionFreeText || content.text;
+
   // 2. Check authorization for direct messages based on dmPolicy
   let commandAuthorized = true;
   if (isDirect) {
@@ -670,7 +2252,7 @@ async function handleDingTalkMessage(params: HandleDingTalkMessageParams): Promi
         try {
           await sendBySession(dingtalkConfig, sessionWebhook, 
             `⛔ 访问受限\n\n您的用户ID：\`${senderId}\`\n\n请联系管理员将此ID添加到允许列表中。`, 
-            { log }
+            { conversationId: senderId, log }
           );
         } catch (err: any) {
           log?.debug?.(`[DingTalk] Failed to send access denied message: ${err.message}`);
@@ -681,27 +2263,170 @@ async function handleDingTalkMessage(params: HandleDingTalkMessageParams): Promi
       
       log?.debug?.(`[DingTalk] DM authorized: senderId=${senderId} in allowlist`);
     } else if (dmPolicy === 'pairing') {
-      // For pairing mode, SDK will handle the authorization
-      // Set commandAuthorized to true to let SDK check pairing status
-      commandAuthorized = true;
-    } else {
-      // 'open' policy - allow all
-      commandAuthorized = true;
+      // Unpaired senders get a one-time code; nothing reaches the agent until it's approved
+      if (!(await isPairedSender(dingtalkConfig, accountId, senderId))) {
+        log?.debug?.(`[DingTalk] DM blocked: senderId=${senderId} not paired (dmPolicy=pairing)`);
+        await sendPairingChallenge({ config: dingtalkConfig, accountId, sessionWebhook, senderId, senderName, log });
+        return;
+      }
+    }
+    // 'open' policy admits everyone; who of the admitted senders may run commands depends on allowFrom
+    commandAuthorized = resolveCommandAuthorized(cfg, dingtalkConfig.allowFrom, senderId, dmPolicy);
+  }
+
+  // 3. Check group access and per-group settings
+  let groupSettings: DingTalkGroupConfig = {};
+  let triggered = false;
+  if (!isDirect) {
+    const group = resolveGroupSettings(dingtalkConfig, groupId);
+    groupSettings = group.settings;
+    commandAuthorized = resolveCommandAuthorized(cfg, groupSettings.allowFrom, senderId);
+
+    let denyReason: string | undefined;
+    if (!group.allowed) {
+      denyReason = `group ${groupId} not allowed (groupPolicy=${dingtalkConfig.groupPolicy || 'open'})`;
+    } else if (!isSenderAllowed({ allow: normalizeAllowFrom(groupSettings.allowFrom), senderId })) {
+      denyReason = `senderId=${senderId} not in allowlist of group ${groupId}`;
+    }
+
+    if (denyReason) {
+      log?.debug?.(`[DingTalk] Group message blocked: ${denyReason}`);
+      if (dingtalkConfig.groupAccessNotice) {
+        try {
+          await sendBySession(
+            dingtalkConfig,
+            sessionWebhook,
+            `⛔ 访问受限\n\n群ID：\`${groupId}\`\n您的用户ID：\`${senderId}\`\n\n请联系管理员将此群或用户添加到允许列表中。`,
+            { atUserId: senderId, conversationId: groupId, log }
+          );
+        } catch (err: any) {
+          log?.debug?.(`[DingTalk] Failed to send group access denied message: ${err.message}`);
+        }
+      }
+      return;
+    }
+  }
+
+  // Remember the conversation so proactive sends can address it (group:<title>); only senders
+  // that passed the access checks are recorded
+  if (!cardAction) {
+    recordConversation({
+      accountId,
+      conversationId: groupId,
+      type: isDirect ? 'direct' : 'group',
+      target: isDirect ? senderId : groupId,
+      title: isDirect ? data.senderNick : data.conversationTitle,
+      participant: { userId: senderId, name: data.senderNick },
+    });
+  }
+
+  // Not mentioned: a trigger prefix or keyword can still address the bot. Commands are gated too,
+  // so a /status meant for another bot in the group isn't answered
+  if (!isDirect && groupSettings.requireMention !== false && data.isInAtList === false) {
+    const triggerText = matchTrigger(content.text, {
+      prefixes: groupSettings.triggerPrefixes,
+      keywords: groupSettings.triggerKeywords,
+    });
+    if (triggerText === null) {
+      log?.debug?.(`[DingTalk] Group message ignored: bot not mentioned in ${groupId}`);
+      return;
+    }
+    if (!triggerText) {
+      log?.debug?.(`[DingTalk] Group message ignored: trigger prefix without a message in ${groupId}`);
+      return;
+    }
+    content.text = triggerText;
+    triggered = true;
+  }
+
+  // Slash commands go to the SDK's command handlers as native commands
+  const slashCommand = parseSlashCommand(content.text);
+  const isControlCommand = !!slashCommand && rt.channel.commands.isControlCommandMessage(content.text, cfg);
+
+  const to = isDirect ? senderId : groupId;
+  if (isControlCommand) {
+    if (!commandAuthorized) {
+      log?.debug?.(`[DingTalk] Command ${slashCommand?.name} blocked: senderId=${senderId} not authorized`);
+      try {
+        await sendConversationReply(
+          dingtalkConfig,
+          { to, sessionWebhook, sessionWebhookExpiresAt: data.sessionWebhookExpiredTime },
+          `⛔ 无权执行命令 /${slashCommand?.name}\n\n您的用户ID：\`${senderId}\``,
+          { atUserId: !isDirect ? senderId : null, atUserName: senderName, log }
+        );
+      } catch (err: any) {
+        log?.debug?.(`[DingTalk] Failed to send command denied message: ${err.message}`);
+      }
+      return;
+    }
+
+    // /help is answered here, as a card menu whose buttons run the commands
+    if (slashCommand?.name === 'help') {
+      const menu = buildHelpMenu((command) => rt.channel.commands.isControlCommandMessage(command, cfg));
+      const helpCards: Array<{ cardBizId: string; text: string }> = [];
+      await updateCardSequence(dingtalkConfig, to, helpCards, menu.text, {
+        log,
+        useMarkdown: true,
+        actions: menu.actions,
+      });
+      helpCards.forEach((card) => markCardFinished(card.cardBizId));
+      return;
     }
   }
 
-  let mediaPath: string | undefined;
-  let mediaType: string | undefined;
-  if (content.mediaPath && dingtalkConfig.robotCode) {
-    const media = await downloadMedia(dingtalkConfig, content.mediaPath, log);
-    if (media) {
-      mediaPath = media.path;
-      mediaType = media.mimeType;
+  // Per-group reply message type override
+  const replyMessageType = groupSettings.messageType || dingtalkConfig.messageType;
+
+  // The message's media in order (every richText picture/file), then the quoted message's media;
+  // downloads run in parallel. Markers are renumbered to match the downloaded files, so a failed
+  // download keeps its place in the text without shifting the others
+  const mediaFiles: MediaFile[] = [];
+  const quoted = content.quoted;
+  let quotedMediaLabel = '';
+  if (dingtalkConfig.robotCode) {
+    const download = (downloadCode?: string, fileName?: string) =>
+      downloadCode ? downloadMedia(dingtalkConfig, downloadCode, log, { accountId, fileName }) : null;
+    const ownMedia = content.media ?? [{ downloadCode: content.mediaPath, fileName: content.fileName }];
+    const [downloaded, quotedMedia] = await Promise.all([
+      Promise.all(ownMedia.map((item) => download(item.downloadCode, item.fileName))),
+      download(quoted?.mediaPath, quoted?.fileName),
+    ]);
+    // 1-based position of each download in mediaFiles, or 0 when it failed
+    const positions = downloaded.map((media) => (media ? mediaFiles.push(media) : 0));
+    if (content.media) content.text = renumberMediaMarkers(content.text, positions);
+    if (quotedMedia) {
+      const position = mediaFiles.push(quotedMedia);
+      quotedMediaLabel =
+        quoted?.mediaType === 'image'
+          ? `\n[引用图片${position}]`
+          : `\n[引用文件${position}: ${quoted?.fileName || '文件'}]`;
+    } else if (quoted?.mediaPath) {
+      quotedMediaLabel = quoted.mediaType === 'image' ? '\n[引用图片: 下载失败]' : '\n[引用文件: 下载失败]';
     }
   }
+  const mediaPath = mediaFiles[0]?.path;
+  const mediaType = mediaFiles[0]?.mimeType;
+
+  // Text-like files are also passed inline, so the agent can read them without opening the path
+  const attachmentSuffix =
+    dingtalkConfig.textAttachments?.enabled === false ? '' : inlineTextAttachments(dingtalkConfig, mediaFiles, log);
+
+  // A group's agentId binds it to that agent ahead of any configured bindings
+  const routeCfg = groupSettings.agentId
+    ? {
+        ...cfg,
+        bindings: [
+          {
+            agentId: groupSettings.agentId,
+            match: { channel: 'dingtalk', accountId, peer: { kind: 'group', id: groupId } },
+          },
+          ...(cfg.bindings ?? []),
+        ],
+      }
+    : cfg;
 
   const route = rt.channel.routing.resolveAgentRoute({
-    cfg,
+    cfg: routeCfg,
     channel: 'dingtalk',
     accountId,
     peer: { kind: isDirect ? 'dm' : 'group', id: isDirect ? senderId : groupId },
@@ -711,19 +2436,25 @@ async function handleDingTalkMessage(params: HandleDingTalkMessageParams): Promi
   const envelopeOptions = rt.channel.reply.resolveEnvelopeFormatOptions(cfg);
   const previousTimestamp = rt.channel.session.readSessionUpdatedAt({ storePath, sessionKey: route.sessionKey });
 
+  // Quoted message context follows the reply text, in the same form other channels use
+  const quotedSender = quoted ? quoted.senderName || quoted.senderId || 'unknown' : '';
+  const replySuffix = quoted
+    ? `\n\n[Replying to ${quotedSender}${quoted.id ? ` id:${quoted.id}` : ''}]\n${quoted.text}${quotedMediaLabel}\n[/Replying]`
+    : '';
+  const mentionSuffix = mentioned.length > 0 ? `\n\n[Mentioned: ${formatMentionedUsers(mentioned)}]` : '';
+
   const fromLabel = isDirect ? `${senderName} (${senderId})` : `${groupName} - ${senderName}`;
   const body = rt.channel.reply.formatInboundEnvelope({
     channel: 'DingTalk',
     from: fromLabel,
     timestamp: data.createAt,
-    body: content.text,
+    body: `${content.text}${attachmentSuffix}${replySuffix}${mentionSuffix}`,
     chatType: isDirect ? 'direct' : 'group',
     sender: { name: senderName, id: senderId },
     previousTimestamp,
     envelope: envelopeOptions,
   });
 
-  const to = isDirect ? senderId : groupId;
   const ctx = rt.channel.reply.finalizeInboundContext({
     Body: body,
     RawBody: content.text,
@@ -735,16 +2466,28 @@ async function handleDingTalkMessage(params: HandleDingTalkMessageParams): Promi
     ChatType: isDirect ? 'direct' : 'group',
     ConversationLabel: fromLabel,
     GroupSubject: isDirect ? undefined : groupName,
+    GroupSystemPrompt: isDirect ? undefined : groupSettings.systemPrompt,
     SenderName: senderName,
     SenderId: senderId,
     Provider: 'dingtalk',
     Surface: 'dingtalk',
     MessageSid: data.msgId,
     Timestamp: data.createAt,
+    CardAction: cardAction,
+    ReplyToId: quoted?.id,
+    ReplyToBody: quoted?.text,
+    ReplyToSender: quoted ? quotedSender : undefined,
+    WasMentioned: isDirect ? undefined : data.isInAtList === true || triggered,
+    MentionedUsers: mentioned.length > 0 ? mentioned : undefined,
     MediaPath: mediaPath,
     MediaType: mediaType,
     MediaUrl: mediaPath,
+    MediaPaths: mediaFiles.length > 1 ? mediaFiles.map((media) => media.path) : undefined,
+    MediaUrls: mediaFiles.length > 1 ? mediaFiles.map((media) => media.path) : undefined,
+    MediaTypes: mediaFiles.length > 1 ? mediaFiles.map((media) => media.mimeType) : undefined,
     CommandAuthorized: commandAuthorized,
+    CommandSource: isControlCommand ? 'native' : undefined,
+    CommandTargetSessionKey: isControlCommand ? route.sessionKey : undefined,
     OriginatingChannel: 'dingtalk',
     OriginatingTo: to,
   });
@@ -758,65 +2501,228 @@ async function handleDingTalkMessage(params: HandleDingTalkMessageParams): Promi
 
   log?.info?.(`[DingTalk] Inbound: from=${senderName} text="${content.text.slice(0, 50)}..."`);
 
+  // Replies use the session webhook until it expires or is rejected, then go out proactively
+  const replyTarget: ConversationReplyTarget = {
+    to,
+    sessionWebhook,
+    sessionWebhookExpiresAt: data.sessionWebhookExpiredTime,
+  };
+
   // Feedback: Thinking...
-  let currentCardBizId: string | undefined;
-  const useCardMode = dingtalkConfig.messageType === 'card';
-  
-  if (dingtalkConfig.showThinking !== false) {
+  // Card and AI card mode: the reply card followed by any continuation cards
+  const replyCards: Array<{ cardBizId: string; text: string }> = [];
+  const aiCards: Array<{ cardBizId: string; text: string }> = [];
+  const useCardMode = replyMessageType === 'card';
+  const useAICardMode = replyMessageType === 'aicard';
+  // Text/markdown mode: the recallable placeholder's processQueryKey, or the reaction to remove
+  let thinkingKey: string | undefined;
+  let thinkingReaction = false;
+
+  // Commands answer quickly, without a thinking indicator
+  if (dingtalkConfig.showThinking !== false && !isControlCommand) {
     try {
-      if (useCardMode) {
+      if (useAICardMode) {
+        // AI cards render their own "processing" state until content is streamed in
+        const result = await createAICard(dingtalkConfig, to, { log });
+        aiCards.push({ cardBizId: result.cardBizId, text: '' });
+      } else if (useCardMode) {
         // For card mode, send initial card with thinking message
-        const result = await sendInteractiveCard(dingtalkConfig, to, '🤔 思考中，请稍候...', { log });
-        currentCardBizId = result.cardBizId;
+        const result = await sendInteractiveCard(dingtalkConfig, to, THINKING_TEXT, { log });
+        markCardStreaming(result.cardBizId);
+        replyCards.push({ cardBizId: result.cardBizId, text: '' });
+      } else if (dingtalkConfig.thinkingIndicator === 'reaction') {
+        // Acknowledge with an emoji reaction on the user's message instead of a placeholder
+        if (!cardAction) {
+          await callThinkingReaction(dingtalkConfig, 'reply', data, log);
+          thinkingReaction = true;
+        }
       } else {
-        // For text/markdown mode, send via session webhook
-        await sendBySession(dingtalkConfig, sessionWebhook, '🤔 思考中，请稍候...', {
+        // For text/markdown mode, the placeholder goes through the OpenAPI, whose processQueryKey
+        // lets it be recalled once the reply lands (session webhook messages can't be recalled)
+        const result: any = await sendProactivePayload(
+          dingtalkConfig,
+          to,
+          'sampleMarkdown',
+          { title: THINKING_TEXT, text: THINKING_TEXT },
+          log
+        );
+        thinkingKey = result?.processQueryKey;
+      }
+    } catch (err: any) {
+      log?.debug?.(`[DingTalk] Thinking message failed: ${err.message}`);
+    }
+  }
+
+  // Remove the placeholder (or reaction) once, after the first reply is delivered or the run ends
+  const clearThinking = async (): Promise<void> => {
+    const key = thinkingKey;
+    const reaction = thinkingReaction;
+    thinkingKey = undefined;
+    thinkingReaction = false;
+    try {
+      if (key) await recallProactiveMessages(dingtalkConfig, to, [key], log);
+      if (reaction) await callThinkingReaction(dingtalkConfig, 'recall', data, log);
+    } catch (err: any) {
+      log?.debug?.(`[DingTalk] Failed to clear thinking indicator: ${err.message}`);
+    }
+  };
+
+  // Card mode keeps the latest reply text and actions, and any images embedded below the text
+  let cardText = '';
+  let cardActions: CardAction[] = [];
+  const cardImages: string[] = [];
+
+  // AI card mode pushes the full content on every update; pushes run one at a time and
+  // partial replies are throttled, while delivered replies always go through
+  let aiCardChain: Promise<void> = Promise.resolve();
+  let aiCardPushedAt = 0;
+  const pushAICardContent = (text: string, force: boolean): Promise<void> => {
+    const now = Date.now();
+    if (!force && now - aiCardPushedAt < CARD_UPDATE_MIN_INTERVAL) return aiCardChain;
+    aiCardPushedAt = now;
+    const push = aiCardChain.then(async () => {
+      const content = [text, ...cardImages].filter(Boolean).join('\n\n');
+      if (!content) return;
+      await updateAICardSequence(dingtalkConfig, to, aiCards, content, log);
+    });
+    aiCardChain = push.catch(() => undefined);
+    return push;
+  };
+
+  const deliverReply = async (payload: any): Promise<{ ok: boolean; error?: string }> => {
+    try {
+      // Buttons and input fields attached by the agent (directives are stripped from the text)
+      const { text: actionFreeText, actions } = extractCardActions({
+        text: payload.markdown || payload.text,
+        channelData: payload.channelData,
+      });
+      // [[at: …]] directives name people seen in this conversation (mentions only apply in groups)
+      const directive = extractMentionDirectives(actionFreeText);
+      const textToSend = directive.text;
+      const mentions = isDirect
+        ? []
+        : resolveMentions(directive.items, getConversationParticipants(accountId, groupId));
+      const atAll = !isDirect && directive.atAll;
+      const mentionText = formatMentionText(mentions, atAll);
+      const mediaList: string[] = payload.mediaUrls?.length
+        ? payload.mediaUrls
+        : payload.mediaUrl
+          ? [payload.mediaUrl]
+          : [];
+      if (!textToSend && mediaList.length === 0) return { ok: true };
+
+      if (useCardMode || useAICardMode) {
+        // Images are embedded in the card; other media follow as separate messages
+        const otherMedia: string[] = [];
+        for (const mediaUrl of mediaList) {
+          if (detectMediaType(mediaUrl).mediaType !== 'image') {
+            otherMedia.push(mediaUrl);
+            continue;
+          }
+          try {
+            const mediaId = await uploadImageSource(dingtalkConfig, mediaUrl, log);
+            cardImages.push(`![图片](${mediaId})`);
+          } catch (err: any) {
+            log?.error?.(`[DingTalk] Failed to embed image ${mediaUrl} in card: ${err.message}`);
+          }
+        }
+
+        // Cards can't notify anyone, the mentions are written into the text
+        if (textToSend) cardText = mentionText ? `${textToSend}\n\n${mentionText}` : textToSend;
+        if (actions.length > 0) cardActions = actions;
+
+        if (useAICardMode) {
+          if (actions.length > 0) {
+            log?.debug?.(`[DingTalk] AI card templates don't render actions, dropping ${actions.length} action(s)`);
+          }
+          await pushAICardContent(cardText, true);
+          return await deliverReplyMedia(dingtalkConfig, to, otherMedia, log);
+        }
+
+        const cardContent = [cardText, ...cardImages].filter(Boolean).join('\n\n');
+        if (cardContent) {
+          // Card mode: update the reply card(s), creating or continuing cards as needed
+          const cardOptions = { log, useMarkdown: true, actions: cardActions };
+          await updateCardSequence(dingtalkConfig, to, replyCards, cardContent, cardOptions);
+        }
+
+        return await deliverReplyMedia(dingtalkConfig, to, otherMedia, log);
+      }
+
+      // Text/markdown mode: send text first, then media in order.
+      // Replies with actions go out as an interactive card so the buttons render.
+      if (textToSend && actions.length > 0) {
+        const actionCards: Array<{ cardBizId: string; text: string }> = [];
+        const actionText = mentionText ? `${textToSend}\n\n${mentionText}` : textToSend;
+        await updateCardSequence(dingtalkConfig, to, actionCards, actionText, { log, actions });
+        actionCards.forEach((card) => markCardFinished(card.cardBizId));
+      } else if (textToSend) {
+        // messageType 'text' sends the plain-text rendering instead of markdown
+        await sendConversationReply(dingtalkConfig, replyTarget, textToSend, {
           atUserId: !isDirect ? senderId : null,
+          atUserName: senderName,
+          mentions,
+          atAll,
+          useMarkdown: replyMessageType === 'text' ? false : undefined,
           log,
         });
       }
+      return await deliverReplyMedia(dingtalkConfig, to, mediaList, log);
     } catch (err: any) {
-      log?.debug?.(`[DingTalk] Thinking message failed: ${err.message}`);
+      log?.error?.(`[DingTalk] Reply failed: ${err.message}`);
+      return { ok: false, error: err.message };
     }
-  }
+  };
 
   const { dispatcher, replyOptions, markDispatchIdle } = rt.channel.reply.createReplyDispatcherWithTyping({
     responsePrefix: '',
     deliver: async (payload: any) => {
-      try {
-        const textToSend = payload.markdown || payload.text;
-        if (!textToSend) return { ok: true };
-        
-        if (useCardMode) {
-          // Card mode: update existing card or create new one (throttled)
-          if (currentCardBizId) {
-            await updateInteractiveCard(dingtalkConfig, currentCardBizId, textToSend, { log });
-          } else {
-            const result = await sendInteractiveCard(dingtalkConfig, to, textToSend, { log });
-            currentCardBizId = result.cardBizId;
-          }
-        } else {
-          // Text/markdown mode: send via session webhook
-          await sendBySession(dingtalkConfig, sessionWebhook, textToSend, {
-            atUserId: !isDirect ? senderId : null,
-            log,
-          });
-        }
-        return { ok: true };
-      } catch (err: any) {
-        log?.error?.(`[DingTalk] Reply failed: ${err.message}`);
-        return { ok: false, error: err.message };
-      }
+      const result = await deliverReply(payload);
+      recordOutbound(accountId, result.ok ? undefined : result.error);
+      if (result.ok) await clearThinking();
+      return result;
     },
   });
 
+  // Stream partial replies into the AI card as the agent writes them
+  const dispatchReplyOptions = useAICardMode
+    ? {
+        ...replyOptions,
+        onPartialReply: async (partial: { text?: string }) => {
+          const { text } = extractMentionDirectives(extractCardActions({ text: partial.text }).text);
+          if (!text) return;
+          try {
+            await pushAICardContent(text, false);
+          } catch (err: any) {
+            log?.debug?.(`[DingTalk] AI card streaming update failed: ${err.message}`);
+          }
+        },
+      }
+    : replyOptions;
+
+  let dispatchFailed = false;
   try {
-    await rt.channel.reply.dispatchReplyFromConfig({ ctx, cfg, dispatcher, replyOptions });
+    await rt.channel.reply.dispatchReplyFromConfig({ ctx, cfg, dispatcher, replyOptions: dispatchReplyOptions });
+  } catch (err: any) {
+    dispatchFailed = true;
+    throw err;
   } finally {
     markDispatchIdle();
-    if (mediaPath && fs.existsSync(mediaPath)) {
+    await clearThinking();
+    replyCards.forEach((card) => markCardFinished(card.cardBizId));
+    if (useAICardMode && aiCards.length > 0) {
+      // Close the cards so they leave the streaming state: finished, or failed when the run errored
+      await aiCardChain;
+      const content = [cardText, ...cardImages].filter(Boolean).join('\n\n');
+      try {
+        await finishAICardSequence(dingtalkConfig, to, aiCards, content, { failed: dispatchFailed, log });
+      } catch (err: any) {
+        log?.error?.(`[DingTalk] Failed to finalize AI card(s) in ${to}: ${err.message}`);
+      }
+    }
+    for (const media of mediaFiles) {
       try {
-        fs.unlinkSync(mediaPath);
+        removeDownloadedMedia(media);
       } catch (_err) {
         // Ignore cleanup errors
       }
@@ -824,6 +2730,161 @@ async function handleDingTalkMessage(params: HandleDingTalkMessageParams): Promi
   }
 }
 
+// Route a card action callback (button click / form submit) into the agent session
+// of the conversation the card was sent to
+async function handleCardAction(params: {
+  cfg: ClawdbotConfig;
+  accountId: string;
+  event: CardActionEvent;
+  log?: Logger;
+  dingtalkConfig: DingTalkConfig;
+}): Promise<void> {
+  const { event } = params;
+  const instance = cardInstances.get(event.cardBizId);
+  const conversationId = instance?.conversationId || event.openConversationId || event.userId;
+  const isGroup = conversationId.startsWith('cid');
+
+  const data: DingTalkInboundMessage = {
+    msgId: `card_action_${event.cardBizId}_${Date.now()}`,
+    msgtype: 'cardAction',
+    createAt: Date.now(),
+    conversationType: isGroup ? '2' : '1',
+    conversationId,
+    senderId: event.userId,
+    senderStaffId: event.userId,
+    chatbotUserId: '',
+    sessionWebhook: '',
+  };
+
+  params.log?.info?.(`[DingTalk] Card action: card=${event.cardBizId} action=${event.actionId} user=${event.userId}`);
+  await handleDingTalkMessage({
+    cfg: params.cfg,
+    accountId: params.accountId,
+    data,
+    sessionWebhook: '',
+    log: params.log,
+    dingtalkConfig: params.dingtalkConfig,
+    cardAction: event,
+  });
+}
+
+// The parts of the Stream client's WebSocket used here; the socket is private in the SDK typings
+interface StreamSocket {
+  readonly readyState: number;
+  readonly CLOSED: number;
+  once(event: 'close', listener: () => void): unknown;
+  terminate?(): void;
+}
+
+function getStreamSocket(client: DWClient): StreamSocket | undefined {
+  return (client as unknown as { socket?: StreamSocket }).socket;
+}
+
+// Connect a Stream client, giving up after STREAM_CONNECT_TIMEOUT: the SDK's endpoint request and
+// socket handshake have no timeout of their own, so a hung connect would never settle
+function connectStreamClient(client: DWClient): Promise<void> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_resolve, reject) => {
+    timer = setTimeout(
+      () => reject(new Error(`Stream connect timed out after ${STREAM_CONNECT_TIMEOUT / 1000}s`)),
+      STREAM_CONNECT_TIMEOUT
+    );
+  });
+  return Promise.race([client.connect(), timeout]).finally(() => clearTimeout(timer));
+}
+
+// Close the Stream socket and wait until it's gone, so its late close event can't mark a new connection as lost
+function closeStreamSocket(client: DWClient): Promise<void> {
+  const socket = getStreamSocket(client);
+  client.disconnect();
+  if (!socket || socket.readyState === socket.CLOSED) return Promise.resolve();
+  return new Promise((resolve) => {
+    const timer = setTimeout(() => {
+      socket.terminate?.();
+      resolve();
+    }, STREAM_SOCKET_CLOSE_TIMEOUT);
+    socket.once('close', () => {
+      clearTimeout(timer);
+      resolve();
+    });
+  });
+}
+
+// Watch a Stream client: reconnect with exponential backoff when the connection drops
+// or goes silent (no frames, keepalives included). Returns a function that stops watching.
+function monitorStreamConnection(client: DWClient, accountId: string, config: DingTalkConfig, log?: Logger) {
+  const silenceTimeout = (config.connection?.silenceTimeoutSeconds ?? 300) * 1000;
+  const maxDelay = (config.connection?.maxReconnectDelaySeconds ?? 60) * 1000;
+  let lastFrameAt = Date.now();
+  let failures = 0;
+  let reconnecting = false;
+  let retryTimer: NodeJS.Timeout | null = null;
+  let stopped = false;
+
+  const onDownStream = client.onDownStream.bind(client);
+  client.onDownStream = (data: string) => {
+    lastFrameAt = Date.now();
+    onDownStream(data);
+  };
+
+  const reconnect = async (reason: string) => {
+    reconnecting = true;
+    log?.warn?.(`[DingTalk] [${accountId}] Reconnecting Stream client: ${reason}`);
+    await closeStreamSocket(client);
+    if (!stopped) {
+      try {
+        await connectStreamClient(client);
+      } catch (err: any) {
+        // Drop the half-open connection; the backoff below schedules the next attempt
+        log?.warn?.(`[DingTalk] [${accountId}] Stream connect failed: ${err.message}`);
+        await closeStreamSocket(client);
+      }
+    }
+    reconnecting = false;
+    if (stopped) {
+      client.disconnect();
+      return;
+    }
+
+    if (client.connected) {
+      failures = 0;
+      lastFrameAt = Date.now();
+      recordReconnectAttempt(accountId);
+      recordConnected(accountId);
+      log?.info?.(`[DingTalk] [${accountId}] Stream client reconnected`);
+      return;
+    }
+
+    failures++;
+    recordReconnectAttempt(accountId, `Reconnect failed (${reason})`);
+    const delay = Math.min(STREAM_RECONNECT_BASE_DELAY * 2 ** failures, maxDelay);
+    log?.warn?.(`[DingTalk] [${accountId}] Stream reconnect failed, retrying in ${delay / 1000}s`);
+    retryTimer = setTimeout(() => {
+      retryTimer = null;
+      void reconnect(reason);
+    }, delay);
+  };
+
+  const healthTimer = setInterval(() => {
+    if (stopped || reconnecting || retryTimer) return;
+    if (!client.connected) {
+      recordDisconnected(accountId, 'Stream connection lost');
+      void reconnect('connection lost');
+    } else if (Date.now() - lastFrameAt > silenceTimeout) {
+      recordDisconnected(accountId, `No Stream traffic for ${Math.round(silenceTimeout / 1000)}s`);
+      void reconnect('connection silent');
+    }
+  }, STREAM_HEALTH_CHECK_INTERVAL);
+  healthTimer.unref?.();
+
+  return () => {
+    stopped = true;
+    clearInterval(healthTimer);
+    if (retryTimer) clearTimeout(retryTimer);
+    client.disconnect();
+  };
+}
+
 // DingTalk Channel Definition
 export const dingtalkPlugin = {
   id: 'dingtalk',
@@ -841,7 +2902,7 @@ export const dingtalkPlugin = {
     reactions: false,
     threads: false,
     media: true,
-    nativeCommands: false,
+    nativeCommands: true,
     blockStreaming: false,
     outbound: true,
   },
@@ -878,16 +2939,42 @@ export const dingtalkPlugin = {
       normalizeEntry: (raw: string) => raw.replace(/^(dingtalk|dd|ding):/i, ''),
     }),
   },
+  pairing: {
+    idLabel: 'dingtalkUserId',
+    normalizeAllowEntry: (entry: string) => entry.replace(/^(dingtalk|dd|ding):/i, ''),
+    // The SDK only passes the sender: notify through the accounts that handed out its SDK code
+    notifyApproval: async ({ cfg, id }: any) => {
+      const accountIds = new Set(
+        listPairingRequests(resolvePairingStorePath())
+          .filter((request) => request.senderId === id && request.issuedBySdk)
+          .map((request) => request.accountId)
+      );
+      if (accountIds.size === 0) {
+        await sendProactiveMessage(getConfig(cfg), id, PAIRING_APPROVED_TEXT);
+        return;
+      }
+      for (const accountId of accountIds) {
+        await sendProactiveMessage(getConfig(cfg, accountId), id, PAIRING_APPROVED_TEXT);
+      }
+    },
+  },
   groups: {
-    resolveRequireMention: ({ cfg }: any): boolean => getConfig(cfg).groupPolicy !== 'open',
+    resolveRequireMention: ({ cfg, groupId, accountId }: any): boolean =>
+      resolveGroupSettings(getConfig(cfg, accountId), groupId ?? '').settings.requireMention !== false,
   },
   messaging: {
     normalizeTarget: ({ target }: any) => (target ? { targetId: target.replace(/^(dingtalk|dd|ding):/i, '') } : null),
-    targetResolver: { looksLikeId: (id: string): boolean => /^[\w-]+$/.test(id), hint: '<conversationId>' },
+    targetResolver: {
+      looksLikeId: (id: string): boolean =>
+        /^[\w-]+$/.test(id) || parseDirectoryTarget(id) !== null || parseGroupTarget(id) !== null,
+      hint: '<conversationId|userId|group:群名|user:姓名|mobile:手机号|email:邮箱>',
+    },
   },
   outbound: {
+    // How the SDK invokes sendText/sendMedia (in this process); the plugin's own deliveryMode 'queued'
+    // is handled inside them
     deliveryMode: 'direct',
-    resolveTarget: ({ to }: any) => {
+    resolveTarget: ({ to, accountId }: any) => {
       const trimmed = to?.trim();
       if (!trimmed) {
         return {
@@ -895,27 +2982,63 @@ export const dingtalkPlugin = {
           error: new Error('DingTalk message requires --to <conversationId>'),
         };
       }
-      return { ok: true, to: trimmed };
+      try {
+        return { ok: true, to: resolveGroupTarget(trimmed.replace(/^(dingtalk|dd|ding):/i, ''), accountId) };
+      } catch (err: any) {
+        return { ok: false, error: err };
+      }
     },
     sendText: async ({ cfg, to, text, accountId, log }: any) => {
       const config = getConfig(cfg, accountId);
+      let target: string;
+      try {
+        target = await resolveProactiveTarget(config, to, log, accountId);
+      } catch (err: any) {
+        return { ok: false, error: err.message };
+      }
+      const message = renderProactiveMentions(text, target, accountId);
+      // deliveryMode 'queued': persisted first, retried on failure (while the account runs in this process)
+      if (config.deliveryMode === 'queued' && hasOutbox(accountId || 'default')) {
+        return sendQueued(accountId || 'default', queuedTextMessages(config, target, message));
+      }
       try {
-        const result = await sendProactiveMessage(config, to, text, { log });
+        const result = await sendProactiveMessage(config, target, message, { log });
+        recordOutbound(accountId || 'default');
         return { ok: true, data: result };
       } catch (err: any) {
+        recordOutbound(accountId || 'default', err.message);
         return { ok: false, error: err.response?.data || err.message };
       }
     },
-    sendMedia: async ({ cfg, to, mediaPath, accountId, log }: any) => {
+    sendMedia: async ({ cfg, to, mediaPath, mediaUrl, caption, text, fileName, accountId, log }: any) => {
       const config = getConfig(cfg, accountId);
       if (!config.clientId) {
         return { ok: false, error: 'DingTalk not configured' };
       }
+      const source = mediaPath || mediaUrl;
+      if (!source) {
+        return { ok: false, error: 'DingTalk media message requires mediaPath or mediaUrl' };
+      }
+      let target: string;
+      try {
+        target = await resolveProactiveTarget(config, to, log, accountId);
+      } catch (err: any) {
+        return { ok: false, error: err.message };
+      }
+      if (config.deliveryMode === 'queued' && hasOutbox(accountId || 'default')) {
+        // The caption is queued as its own text entries behind the media
+        const captionText = caption ?? text;
+        return sendQueued(accountId || 'default', [
+          { to: target, kind: 'media', mediaSource: source, fileName },
+          ...(captionText ? queuedTextMessages(config, target, captionText) : []),
+        ]);
+      }
       try {
-        const mediaDescription = `[媒体消息: ${mediaPath}]`;
-        const result = await sendProactiveMessage(config, to, mediaDescription, { log });
+        const result = await sendProactiveMedia(config, target, source, { caption: caption ?? text, fileName, log });
+        recordOutbound(accountId || 'default');
         return { ok: true, data: result };
       } catch (err: any) {
+        recordOutbound(accountId || 'default', err.message);
         return { ok: false, error: err.response?.data || err.message };
       }
     },
@@ -929,21 +3052,77 @@ export const dingtalkPlugin = {
         ctx.log.info(`[${account.accountId}] Starting DingTalk Stream client...`);
       }
 
-      cleanupOrphanedTempFiles(ctx.log);
+      cleanupOrphanedTempFiles(ctx.log, resolveMediaDir(account.accountId));
+
+      loadConversationRegistry(resolveConversationRegistryPath());
+
+      // Restore persisted cards and close the ones a previous run left streaming
+      loadCardStore(ctx.log);
+      await recoverInterruptedCards(config, ctx.log);
+
+      initDedupCache(
+        account.accountId,
+        {
+          ttlMs: (config.dedup?.ttlSeconds ?? 1800) * 1000,
+          maxEntries: config.dedup?.maxEntries,
+          filePath: config.dedup?.persist
+            ? path.join(resolvePluginStateDir(), `dedup-${account.accountId}.json`)
+            : undefined,
+        },
+        ctx.log
+      );
+
+      if (config.deliveryMode === 'queued') {
+        const queue = config.outboundQueue;
+        initOutbox(account.accountId, {
+          filePath: path.join(resolvePluginStateDir(), `outbox-${account.accountId}.json`),
+          maxAttempts: queue?.maxAttempts ?? 8,
+          retryBaseMs: (queue?.retryBaseSeconds ?? 5) * 1000,
+          retryMaxMs: (queue?.retryMaxSeconds ?? 1800) * 1000,
+          maxDeadLetters: queue?.maxDeadLetters ?? 500,
+          deliver: async (entry) => {
+            try {
+              const result = await deliverOutboxEntry(config, entry, ctx.log);
+              recordOutbound(account.accountId);
+              return result;
+            } catch (err: any) {
+              recordOutbound(account.accountId, err.message);
+              throw err;
+            }
+          },
+          isRetryable: isRetryableSendError,
+          log: ctx.log,
+        });
+      }
+
+      initStreamHealth(account.accountId, (health) => ctx.setStatus?.({ accountId: account.accountId, ...health }));
 
       const client = new DWClient({
         clientId: config.clientId,
         clientSecret: config.clientSecret,
         debug: config.debug || false,
       });
+      // Reconnects are driven by monitorStreamConnection (with backoff) instead of the client's fixed retry
+      client.config.autoReconnect = false;
 
       client.registerCallbackListener(TOPIC_ROBOT, async (res: any) => {
         const messageId = res.headers?.messageId;
+        recordInbound(account.accountId);
         try {
           if (messageId) {
             client.socketCallBackResponse(messageId, { success: true });
           }
           const data = JSON.parse(res.data) as DingTalkInboundMessage;
+          // Drop Stream redeliveries of a message we've already handled
+          if (
+            checkAndRecordMessage(account.accountId, [
+              data.msgId && `msg:${data.msgId}`,
+              messageId && `stream:${messageId}`,
+            ])
+          ) {
+            ctx.log?.debug?.(`[DingTalk] Ignoring duplicate message msgId=${data.msgId} messageId=${messageId}`);
+            return;
+          }
           await handleDingTalkMessage({
             cfg,
             accountId: account.accountId,
@@ -959,9 +3138,48 @@ export const dingtalkPlugin = {
         }
       });
 
-      await client.connect();
-      if (ctx.log?.info) {
-        ctx.log.info(`[${account.accountId}] DingTalk Stream client connected`);
+      client.registerCallbackListener(TOPIC_CARD, async (res: any) => {
+        const messageId = res.headers?.messageId;
+        recordInbound(account.accountId);
+        try {
+          if (messageId) {
+            client.socketCallBackResponse(messageId, { success: true });
+          }
+          const event = parseCardCallback(JSON.parse(res.data));
+          if (!event) {
+            ctx.log?.debug?.('[DingTalk] Ignoring card callback without card or operator ID');
+            return;
+          }
+          if (checkAndRecordMessage(account.accountId, [messageId && `stream:${messageId}`])) {
+            ctx.log?.debug?.(`[DingTalk] Ignoring duplicate card callback messageId=${messageId}`);
+            return;
+          }
+          await handleCardAction({
+            cfg,
+            accountId: account.accountId,
+            event,
+            log: ctx.log,
+            dingtalkConfig: config,
+          });
+        } catch (error: any) {
+          ctx.log?.error?.(`[DingTalk] Error processing card callback: ${error.message}`);
+        }
+      });
+
+      const stopMonitor = monitorStreamConnection(client, account.accountId, config, ctx.log);
+      try {
+        await connectStreamClient(client);
+      } catch (err: any) {
+        ctx.log?.warn?.(`[${account.accountId}] DingTalk Stream connect failed: ${err.message}`);
+        await closeStreamSocket(client);
+      }
+      if (client.connected) {
+        recordConnected(account.accountId);
+        ctx.log?.info?.(`[${account.accountId}] DingTalk Stream client connected`);
+      } else {
+        // The health check retries with backoff
+        recordDisconnected(account.accountId, 'Initial Stream connection failed');
+        ctx.log?.warn?.(`[${account.accountId}] DingTalk Stream connection failed, retrying in the background`);
       }
       const rt = getDingTalkRuntime();
       rt.channel.activity.record('dingtalk', account.accountId, 'start');
@@ -974,6 +3192,11 @@ export const dingtalkPlugin = {
             ctx.log.info(`[${account.accountId}] Stopping DingTalk Stream client...`);
           }
           rt.channel.activity.record('dingtalk', account.accountId, 'stop');
+          stopMonitor();
+          disposeDedupCache(account.accountId);
+          disposeStreamHealth(account.accountId);
+          disposeOutbox(account.accountId);
+          flushConversationRegistry();
         });
       }
       return {
@@ -986,6 +3209,11 @@ export const dingtalkPlugin = {
           rt.channel.activity.record('dingtalk', account.accountId, 'stop');
           // Clean up card cache cleanup interval
           stopCardCacheCleanup();
+          stopMonitor();
+          disposeDedupCache(account.accountId);
+          disposeStreamHealth(account.accountId);
+          disposeOutbox(account.accountId);
+          flushConversationRegistry();
         },
       };
     },
@@ -1002,12 +3230,36 @@ export const dingtalkPlugin = {
         return { ok: false, error: error.message };
       }
     },
+    buildAccountSnapshot: ({ account, runtime }: any) => ({
+      accountId: account.accountId,
+      name: account.config?.name,
+      enabled: account.enabled,
+      configured: Boolean(account.config?.clientId && account.config?.clientSecret),
+      running: false,
+      lastStartAt: null,
+      lastStopAt: null,
+      lastError: null,
+      ...runtime,
+      // The in-process health record is the freshest source for connection fields
+      ...getStreamHealth(account.accountId),
+      // Outbound queue behind the app's rate limits
+      sendQueue: account.config?.clientId ? getRateLimitStats(account.config.clientId) : null,
+    }),
     buildChannelSummary: ({ snapshot }: any) => ({
       configured: snapshot?.configured ?? false,
       running: snapshot?.running ?? false,
       lastStartAt: snapshot?.lastStartAt ?? null,
       lastStopAt: snapshot?.lastStopAt ?? null,
       lastError: snapshot?.lastError ?? null,
+      connected: snapshot?.connected ?? false,
+      degraded: snapshot?.degraded ?? false,
+      reconnectAttempts: snapshot?.reconnectAttempts ?? 0,
+      lastConnectedAt: snapshot?.lastConnectedAt ?? null,
+      lastDisconnectedAt: snapshot?.lastDisconnectedAt ?? null,
+      lastInboundAt: snapshot?.lastInboundAt ?? null,
+      lastOutboundAt: snapshot?.lastOutboundAt ?? null,
+      lastOutboundError: snapshot?.lastOutboundError ?? null,
+      sendQueue: snapshot?.sendQueue ?? null,
     }),
   },
 };
@@ -1019,16 +3271,29 @@ export const dingtalkPlugin = {
  *   (e.g. replies within an existing conversation).
  * - {@link sendProactiveMessage} sends a proactive/outbound message to DingTalk
  *   without requiring an existing inbound session.
+ * - {@link sendProactiveMedia} uploads a local file and sends it as an image,
+ *   file, audio or video message (with an optional caption).
+ * - {@link uploadMedia} uploads a local file and returns its DingTalk mediaId.
  * - {@link sendInteractiveCard} sends an interactive card to DingTalk
  *   (returns cardBizId for streaming updates).
  * - {@link updateInteractiveCard} updates an existing interactive card
  *   (for streaming message updates).
  * - {@link updateInteractiveCardThrottled} throttled version of updateInteractiveCard
  *   with rate limiting and auto-finalization timeout (recommended for streaming).
+ * - {@link createAICard} / {@link streamAICard} / {@link finishAICard} create an
+ *   AI card, stream its full content and close it as finished or failed.
  * - {@link sendMessage} sends a message with automatic mode selection
- *   (text/markdown/card based on config).
+ *   (text/markdown/card/aicard based on config).
+ * - {@link approveDingTalkPairing} / {@link listDingTalkPairingRequests} approve
+ *   and list pending DM pairing codes (dmPolicy 'pairing').
+ * - {@link listDingTalkOutbox} / {@link replayDingTalkDeadLetters} inspect the
+ *   persistent outbound queue (deliveryMode 'queued') and re-queue dead letters.
+ * - {@link listDingTalkConversations} lists the groups and DMs the bot has seen
+ *   (targets for `group:<title>` sends).
  * - {@link getAccessToken} retrieves (and caches) the DingTalk access token
- *   for the configured application/runtime.
+ *   for the configured application/runtime. Tokens are cached per clientId.
+ * - {@link invalidateAccessToken} drops a cached access token so the next
+ *   call refreshes it (e.g. after a 401 from an API outside this plugin).
  *
  * These exports are intended to be used by external integrations that need
  * direct programmatic access to DingTalk messaging and authentication.
@@ -1036,10 +3301,21 @@ export const dingtalkPlugin = {
 export {
   sendBySession,
   sendProactiveMessage,
+  sendProactiveMedia,
+  uploadMedia,
   sendInteractiveCard,
   updateInteractiveCard,
   updateInteractiveCardThrottled,
+  createAICard,
+  streamAICard,
+  finishAICard,
   sendMessage,
   getAccessToken,
+  invalidateAccessToken,
+  approveDingTalkPairing,
+  listDingTalkPairingRequests,
+  listDingTalkOutbox,
+  replayDingTalkDeadLetters,
+  listDingTalkConversations,
   dingtalkConfigSchema,
 };
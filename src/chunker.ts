@@ -0,0 +1,164 @@
+/**
+ * Markdown-aware reply chunking
+ *
+ * DingTalk rejects or truncates long message bodies, so oversized replies are
+ * split into several messages. Splits fall on block boundaries (paragraphs,
+ * list items, fenced code blocks, tables); a fenced block or table is only
+ * divided when it alone exceeds the limit, and then every piece is re-fenced
+ * (or repeats the table header) so each chunk still renders on its own.
+ */
+
+type BlockKind = 'paragraph' | 'list' | 'fence' | 'table';
+
+interface Block {
+  kind: BlockKind;
+  lines: string[];
+}
+
+const FENCE_OPEN = /^\s*(`{3,}|~{3,})/;
+const LIST_ITEM = /^\s*([-*+]|\d+[.)])\s+/;
+const TABLE_ROW = /^\s*\|/;
+
+// Room kept free in every chunk for the "(12/34)" marker
+const MARKER_RESERVE = 12;
+
+/**
+ * Split a reply into chunks of at most `limit` characters.
+ * When more than one chunk is produced, each gets a "(1/3)"-style marker.
+ */
+export function chunkReplyText(text: string, limit: number): string[] {
+  if (text.length <= limit) return [text];
+
+  const chunks = packBlocks(parseBlocks(text), Math.max(limit - MARKER_RESERVE, 1));
+  if (chunks.length <= 1) return chunks;
+  return chunks.map((chunk, index) => `${chunk}\n\n(${index + 1}/${chunks.length})`);
+}
+
+function parseBlocks(text: string): Block[] {
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  const blocks: Block[] = [];
+  let current = null as Block | null;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    // Fenced code: everything up to the matching closing fence is one block
+    const fence = FENCE_OPEN.exec(line);
+    if (fence) {
+      const marker = fence[1];
+      const fenceLines = [line];
+      while (++i < lines.length) {
+        fenceLines.push(lines[i]);
+        if (lines[i].trim().startsWith(marker) && lines[i].trim().replace(/[`~]/g, '') === '') break;
+      }
+      blocks.push({ kind: 'fence', lines: fenceLines });
+      current = null;
+      continue;
+    }
+
+    if (line.trim() === '') {
+      current = null;
+      continue;
+    }
+
+    const kind: BlockKind = TABLE_ROW.test(line)
+      ? 'table'
+      : LIST_ITEM.test(line) || (current?.kind === 'list' && /^\s+/.test(line))
+        ? 'list'
+        : 'paragraph';
+
+    if (current && current.kind === kind) {
+      current.lines.push(line);
+    } else {
+      current = { kind, lines: [line] };
+      blocks.push(current);
+    }
+  }
+
+  return blocks;
+}
+
+function packBlocks(blocks: Block[], limit: number): string[] {
+  const chunks: string[] = [];
+  let current = '';
+
+  const push = (piece: string, separator: string) => {
+    if (current && current.length + separator.length + piece.length <= limit) {
+      current += separator + piece;
+      return;
+    }
+    if (current) chunks.push(current);
+    current = piece;
+  };
+
+  for (const block of blocks) {
+    const text = block.lines.join('\n');
+    if (text.length <= limit) {
+      push(text, '\n\n');
+      continue;
+    }
+    // Oversized block: pieces of the same block stay single-spaced when they share a chunk
+    splitBlock(block, limit).forEach((piece, index) => push(piece, index === 0 ? '\n\n' : '\n'));
+  }
+
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+function splitBlock(block: Block, limit: number): string[] {
+  if (block.kind === 'fence') {
+    // Re-open and close the fence around every piece
+    const opening = block.lines[0];
+    const hasClosing = block.lines.length > 1 && FENCE_OPEN.test(block.lines[block.lines.length - 1]);
+    const closing = hasClosing ? block.lines[block.lines.length - 1].trim() : (FENCE_OPEN.exec(opening)?.[1] ?? '```');
+    const body = block.lines.slice(1, hasClosing ? -1 : undefined);
+    const wrapperLength = opening.length + closing.length + 2;
+    return groupLines(body, limit - wrapperLength).map((piece) => `${opening}\n${piece}\n${closing}`);
+  }
+
+  if (block.kind === 'table') {
+    // Repeat the header and separator rows on every piece
+    const header = block.lines.slice(0, 2);
+    const headerText = header.join('\n');
+    return groupLines(block.lines.slice(2), limit - headerText.length - 1).map((piece) => `${headerText}\n${piece}`);
+  }
+
+  if (block.kind === 'list') {
+    // Keep each item together with its indented continuation lines
+    const items: string[] = [];
+    for (const line of block.lines) {
+      if (LIST_ITEM.test(line) && !/^\s+/.test(line)) items.push(line);
+      else if (items.length > 0) items[items.length - 1] += `\n${line}`;
+      else items.push(line);
+    }
+    return groupLines(items, limit);
+  }
+
+  // Paragraph: break after sentences, then hard-split anything still too long
+  const paragraph = block.lines.join('\n');
+  // Split after a run of sentence punctuation or a newline; every character is kept
+  const sentences = paragraph.split(/(?<=[。！？.!?\n])(?![。！？.!?])/);
+  return groupLines(sentences, limit, '').map((piece) => piece.trim());
+}
+
+// Greedily join lines into pieces no longer than `limit`, hard-splitting single overlong lines
+function groupLines(lines: string[], limit: number, separator = '\n'): string[] {
+  const size = Math.max(limit, 1);
+  const pieces: string[] = [];
+  let current = '';
+
+  for (const line of lines) {
+    const parts = line.length > size ? (line.match(new RegExp(`[\\s\\S]{1,${size}}`, 'g')) ?? [line]) : [line];
+    for (const part of parts) {
+      if (current && current.length + separator.length + part.length <= size) {
+        current += separator + part;
+      } else {
+        if (current) pieces.push(current);
+        current = part;
+      }
+    }
+  }
+
+  if (current) pieces.push(current);
+  return pieces;
+}
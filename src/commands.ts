@@ -0,0 +1,62 @@
+/**
+ * In-chat slash commands
+ *
+ * DingTalk has no command menu to register with, so messages starting with
+ * `/` are parsed here and handed to the SDK's command handlers as native
+ * commands. `/help` is answered by the channel itself with an interactive
+ * card whose buttons run the common commands; a click comes back as a card
+ * action with the `command:` action ID prefix.
+ */
+
+import type { CardAction } from './types';
+
+const SLASH_COMMAND = /^\/([a-z][\w-]*)(?:\s+([\s\S]*))?$/i;
+const COMMAND_ACTION_PREFIX = 'command:';
+
+/**
+ * Commands offered as buttons on the /help card, with Chinese labels. Only those the runtime
+ * recognizes as control commands are shown (see buildHelpMenu).
+ */
+export const HELP_MENU_COMMANDS: Array<{ command: string; label: string; description: string }> = [
+  { command: '/status', label: '状态', description: '查看当前会话状态' },
+  { command: '/new', label: '新会话', description: '开始新的会话' },
+  { command: '/reset', label: '重置', description: '重置当前会话' },
+  { command: '/model', label: '模型', description: '查看或切换模型（/model <名称>）' },
+  { command: '/think', label: '思考等级', description: '设置思考等级（/think off|low|medium|high）' },
+  { command: '/usage', label: '用量', description: '查看用量与费用' },
+  { command: '/stop', label: '停止', description: '停止当前运行' },
+  { command: '/whoami', label: '我的 ID', description: '查看你的用户 ID' },
+  { command: '/commands', label: '全部命令', description: '列出所有命令' },
+];
+
+/**
+ * Parse a `/name args` message; the name is lower-cased
+ */
+export function parseSlashCommand(text: string): { name: string; args: string } | null {
+  const match = SLASH_COMMAND.exec(text.trim());
+  return match ? { name: match[1].toLowerCase(), args: match[2]?.trim() ?? '' } : null;
+}
+
+/**
+ * Command text of a /help card button click, or null for other card actions
+ */
+export function parseCommandAction(actionId: string): string | null {
+  return actionId.startsWith(COMMAND_ACTION_PREFIX) ? actionId.slice(COMMAND_ACTION_PREFIX.length) || null : null;
+}
+
+/**
+ * The /help card: a command list and one button per command the runtime knows (`isCommand`)
+ */
+export function buildHelpMenu(isCommand: (command: string) => boolean): { text: string; actions: CardAction[] } {
+  const commands = HELP_MENU_COMMANDS.filter((item) => isCommand(item.command));
+  const lines = commands.map((item) => `- \`${item.command}\` ${item.description}`);
+  return {
+    text: ['**可用命令**', '', ...lines, '', '点击按钮直接执行，或发送 `/命令 参数`。'].join('\n'),
+    actions: commands.map((item, index) => ({
+      type: 'button',
+      id: `${COMMAND_ACTION_PREFIX}${item.command}`,
+      label: item.label,
+      style: index === 0 ? 'primary' : 'normal',
+    })),
+  };
+}
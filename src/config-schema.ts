@@ -1,5 +1,34 @@
 import { z } from 'zod';
 
+/**
+ * Per-group settings, keyed by openConversationId (or '*' for the default)
+ */
+export const DingTalkGroupConfigSchema = z.object({
+  /** Whether the bot answers in this group (default: true) */
+  enabled: z.boolean().optional(),
+
+  /** Only answer when the bot is @mentioned (or a trigger matches) */
+  requireMention: z.boolean().optional(),
+
+  /** Prefixes that trigger the bot without an @mention, e.g. '/ai' (stripped from the message) */
+  triggerPrefixes: z.array(z.string()).optional(),
+
+  /** Keywords that trigger the bot without an @mention (case-insensitive) */
+  triggerKeywords: z.array(z.string()).optional(),
+
+  /** Sender IDs allowed to talk to the bot in this group (empty = everyone) */
+  allowFrom: z.array(z.string()).optional(),
+
+  /** Extra system prompt for conversations in this group */
+  systemPrompt: z.string().optional(),
+
+  /** Agent that handles this group (overrides bindings) */
+  agentId: z.string().optional(),
+
+  /** Reply message type override for this group */
+  messageType: z.enum(['text', 'markdown', 'card', 'aicard']).optional(),
+});
+
 /**
  * DingTalk configuration schema using Zod
  * Mirrors the structure needed for proper control-ui rendering
@@ -35,14 +64,42 @@ export const DingTalkConfigSchema = z.object({
   /** List of allowed user IDs for allowlist policy */
   allowFrom: z.array(z.string()).optional(),
 
+  /** Pairing handshake settings for dmPolicy 'pairing' */
+  pairing: z
+    .object({
+      /** How long a pairing code stays valid, in minutes */
+      codeTtlMinutes: z.number().int().positive().optional().default(60),
+      /** Maximum number of pending pairing codes per sender */
+      maxPendingPerSender: z.number().int().positive().optional().default(3),
+    })
+    .optional(),
+
+  /** Per-group settings keyed by openConversationId, with '*' as the default */
+  groups: z.record(z.string(), DingTalkGroupConfigSchema).optional(),
+
+  /** Reply with the conversation ID when a group or sender is not allowed */
+  groupAccessNotice: z.boolean().optional().default(false),
+
+  /** Only answer in groups when the bot is @mentioned or a trigger matches (overridable per group) */
+  requireMention: z.boolean().optional().default(true),
+
+  /** Message prefixes that trigger the bot in groups without an @mention, e.g. '/ai' */
+  triggerPrefixes: z.array(z.string()).optional(),
+
+  /** Keywords that trigger the bot in groups without an @mention */
+  triggerKeywords: z.array(z.string()).optional(),
+
   /** Show thinking indicator while processing */
   showThinking: z.boolean().optional().default(true),
 
+  /** Text/markdown mode indicator: a placeholder message recalled once the reply lands, or an emoji reaction */
+  thinkingIndicator: z.enum(['message', 'reaction']).optional().default('message'),
+
   /** Enable debug logging */
   debug: z.boolean().optional().default(false),
 
-  /** Message type for replies: text, markdown, or card */
-  messageType: z.enum(['text', 'markdown', 'card']).optional().default('markdown'),
+  /** Message type for replies: text, markdown, card, or aicard (streaming AI card) */
+  messageType: z.enum(['text', 'markdown', 'card', 'aicard']).optional().default('markdown'),
 
   /** Card template ID for interactive cards (e.g., 'StandardCard') */
   cardTemplateId: z.string().optional().default('StandardCard'),
@@ -59,6 +116,99 @@ export const DingTalkConfigSchema = z.object({
     .optional()
     .default('https://api.dingtalk.com/v1.0/im/robots/interactiveCards'),
 
+  /** Callback route key registered for card button/form callbacks */
+  cardCallbackRouteKey: z.string().optional(),
+
+  /** AI card template ID (messageType 'aicard') */
+  aiCardTemplateId: z.string().optional().default('382e4302-551d-4880-bf29-a30acfab2e71.schema'),
+
+  /** Template variable that receives the streamed reply text */
+  aiCardContentKey: z.string().optional().default('msgContent'),
+
+  /** Maximum characters per message before a reply is split, for each send path */
+  chunkLimits: z
+    .object({
+      /** Replies through the session webhook */
+      session: z.number().int().positive().optional().default(4000),
+      /** Proactive messages through the OpenAPI */
+      proactive: z.number().int().positive().optional().default(4000),
+      /** Interactive and AI card content; overflow moves to continuation cards */
+      card: z.number().int().positive().optional().default(4000),
+    })
+    .optional(),
+
+  /** Inbound message de-duplication (Stream redeliveries) */
+  dedup: z
+    .object({
+      /** How long a handled message ID is remembered, in seconds */
+      ttlSeconds: z.number().int().positive().optional().default(1800),
+      /** Maximum number of remembered message IDs per account */
+      maxEntries: z.number().int().positive().optional().default(1000),
+      /** Persist the cache to disk so duplicates are suppressed across restarts */
+      persist: z.boolean().optional().default(false),
+    })
+    .optional(),
+
+  /** Stream connection health monitoring */
+  connection: z
+    .object({
+      /** Reconnect when no frame (including keepalives) arrives for this long, in seconds */
+      silenceTimeoutSeconds: z.number().int().positive().optional().default(300),
+      /** Upper bound of the exponential reconnect backoff, in seconds */
+      maxReconnectDelaySeconds: z.number().int().positive().optional().default(60),
+    })
+    .optional(),
+
+  /** Outbound rate limits (token buckets); sends beyond them are queued */
+  rateLimit: z
+    .object({
+      /** Apply the limits */
+      enabled: z.boolean().optional().default(true),
+      /** Messages per minute into one conversation */
+      perConversationPerMinute: z.number().int().positive().optional().default(20),
+      /** Sends and card updates per minute across the app */
+      perAppPerMinute: z.number().int().positive().optional().default(600),
+    })
+    .optional(),
+
+  /** Outbound sends (sendText/sendMedia): direct, or through the persistent retry queue */
+  deliveryMode: z.enum(['direct', 'queued']).optional().default('direct'),
+
+  /** Retry schedule and dead-letter list of the persistent outbound queue */
+  outboundQueue: z
+    .object({
+      /** Attempts before a message is dead-lettered */
+      maxAttempts: z.number().int().positive().optional().default(8),
+      /** First retry delay in seconds; doubles with every attempt */
+      retryBaseSeconds: z.number().int().positive().optional().default(5),
+      /** Upper bound of the retry delay, in seconds */
+      retryMaxSeconds: z.number().int().positive().optional().default(1800),
+      /** Dead letters kept per account (oldest are dropped) */
+      maxDeadLetters: z.number().int().positive().optional().default(500),
+    })
+    .optional(),
+
+  /** Contact directory lookups for user:/mobile:/email:/unionid: targets */
+  directory: z
+    .object({
+      /** How long a resolved userId is cached, in minutes */
+      cacheTtlMinutes: z.number().int().positive().optional().default(60),
+    })
+    .optional(),
+
+  /** Largest inbound file downloaded for the agent, in MB; bigger files are skipped */
+  mediaMaxMb: z.number().positive().optional().default(20),
+
+  /** Include the content of text-like file attachments (txt, md, csv, json, log, code) in the message */
+  textAttachments: z
+    .object({
+      /** Whether text attachments are inlined */
+      enabled: z.boolean().optional().default(true),
+      /** Content beyond this size (KB) is cut off, with a note */
+      maxSizeKB: z.number().int().positive().optional().default(64),
+    })
+    .optional(),
+
   /** Multi-account configuration */
   accounts: z.record(z.string(), z.unknown()).optional(),
 });
@@ -0,0 +1,168 @@
+/**
+ * Registry of conversations the bot has seen
+ *
+ * Every inbound message records its conversation: groups with their title
+ * and openConversationId, DMs with the sender's userId, plus the last
+ * activity and the participants seen, so proactive sends can address a
+ * group by title (`group:<title>`) instead of its opaque `cid…` ID. The
+ * registry lives in memory and is mirrored to a JSON file (debounced) so it
+ * survives restarts; the file is read once per process, so entries another
+ * running process records later aren't picked up.
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { ConversationParticipant, ConversationRecord } from './types';
+
+interface ConversationStoreData {
+  version: 1;
+  conversations: ConversationRecord[];
+}
+
+// Registry bounds: conversations kept (least recently active dropped) and participants per conversation
+const MAX_CONVERSATIONS = 2000;
+const MAX_PARTICIPANTS = 50;
+const FLUSH_DELAY = 2000;
+
+const conversations = new Map<string, ConversationRecord>();
+let storePath: string | null = null;
+let flushTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Load the registry from `filePath` (once per path; the in-memory state wins afterwards)
+ */
+export function loadConversationRegistry(filePath: string): void {
+  if (storePath === filePath) return;
+  storePath = filePath;
+  conversations.clear();
+  try {
+    const data = JSON.parse(fs.readFileSync(filePath, 'utf8')) as Partial<ConversationStoreData>;
+    for (const record of Array.isArray(data.conversations) ? data.conversations : []) {
+      if (record?.accountId && record.conversationId) conversations.set(recordKey(record), record);
+    }
+  } catch {
+    // Missing or unreadable store: start empty
+  }
+}
+
+/**
+ * Record activity in a conversation; the title is only replaced when one is given
+ */
+export function recordConversation(seen: {
+  accountId: string;
+  conversationId: string;
+  type: 'group' | 'direct';
+  target: string;
+  title?: string;
+  participant?: { userId: string; name?: string };
+}): void {
+  const now = Date.now();
+  const key = recordKey(seen);
+  const record: ConversationRecord = conversations.get(key) ?? {
+    accountId: seen.accountId,
+    conversationId: seen.conversationId,
+    type: seen.type,
+    target: seen.target,
+    firstSeenAt: now,
+    lastActivityAt: now,
+    messageCount: 0,
+    participants: [],
+  };
+  record.target = seen.target;
+  if (seen.title) record.title = seen.title;
+  record.lastActivityAt = now;
+  record.messageCount++;
+
+  if (seen.participant) {
+    const participant = record.participants.find((p) => p.userId === seen.participant!.userId);
+    if (participant) {
+      participant.lastSeenAt = now;
+      if (seen.participant.name) participant.name = seen.participant.name;
+    } else {
+      record.participants.push({ ...seen.participant, lastSeenAt: now });
+    }
+    record.participants = record.participants.sort((a, b) => b.lastSeenAt - a.lastSeenAt).slice(0, MAX_PARTICIPANTS);
+  }
+
+  // Re-insert so the map stays ordered by activity, then drop the least recently active
+  conversations.delete(key);
+  conversations.set(key, record);
+  while (conversations.size > MAX_CONVERSATIONS) {
+    conversations.delete(conversations.keys().next().value as string);
+  }
+  scheduleFlush();
+}
+
+/**
+ * Title of a `group:<title>` target, or null for other targets
+ */
+export function parseGroupTarget(target: string): string | null {
+  const match = /^group:(.+)$/i.exec(target.trim());
+  return match ? match[1].trim() || null : null;
+}
+
+/**
+ * Known conversations, most recently active first
+ */
+export function listConversations(
+  filter: { accountId?: string; type?: 'group' | 'direct' } = {}
+): ConversationRecord[] {
+  return [...conversations.values()]
+    .filter((record) => !filter.accountId || record.accountId === filter.accountId)
+    .filter((record) => !filter.type || record.type === filter.type)
+    .sort((a, b) => b.lastActivityAt - a.lastActivityAt);
+}
+
+/**
+ * Senders seen in a conversation, most recently seen first
+ */
+export function getConversationParticipants(accountId: string, conversationId: string): ConversationParticipant[] {
+  return conversations.get(recordKey({ accountId, conversationId }))?.participants ?? [];
+}
+
+/**
+ * Resolve a group title to its openConversationId. Exact titles win over case-insensitive
+ * matches; throws when no group or several groups match, listing the candidates.
+ */
+export function resolveGroupByTitle(title: string, accountId?: string): string {
+  const groups = listConversations({ accountId, type: 'group' });
+  const exact = groups.filter((record) => record.title === title);
+  const matches =
+    exact.length > 0 ? exact : groups.filter((record) => record.title?.toLowerCase() === title.toLowerCase());
+  if (matches.length === 1) return matches[0].conversationId;
+  if (matches.length === 0) {
+    throw new Error(
+      `No DingTalk group titled "${title}" has been seen yet (the bot must receive a message there first)`
+    );
+  }
+  const listed = matches.map((record) => `${record.title} → ${record.conversationId}`).join('; ');
+  throw new Error(`"${title}" matches ${matches.length} DingTalk groups, use one of: ${listed}`);
+}
+
+/**
+ * Write pending registry changes to disk now
+ */
+export function flushConversationRegistry(): void {
+  if (flushTimer) clearTimeout(flushTimer);
+  flushTimer = null;
+  if (!storePath) return;
+  try {
+    fs.mkdirSync(path.dirname(storePath), { recursive: true });
+    const data: ConversationStoreData = { version: 1, conversations: [...conversations.values()] };
+    const tempPath = `${storePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(data));
+    fs.renameSync(tempPath, storePath);
+  } catch {
+    // Best effort: the registry is rebuilt from later messages
+  }
+}
+
+function scheduleFlush(): void {
+  if (flushTimer) return;
+  flushTimer = setTimeout(flushConversationRegistry, FLUSH_DELAY);
+  flushTimer.unref?.();
+}
+
+function recordKey(record: { accountId: string; conversationId: string }): string {
+  return `${record.accountId}:${record.conversationId}`;
+}
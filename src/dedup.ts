@@ -0,0 +1,130 @@
+/**
+ * Inbound message de-duplication
+ *
+ * The DingTalk Stream gateway redelivers a robot callback when it doesn't see
+ * the ACK in time. Each account keeps a bounded TTL cache of the message keys
+ * it has already handled; the cache can be persisted to disk so duplicates are
+ * also suppressed across a gateway restart.
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { DedupCacheOptions, Logger } from './types';
+
+interface DedupCache {
+  /** Message key -> expiry timestamp, in insertion (= arrival) order */
+  entries: Map<string, number>;
+  ttlMs: number;
+  maxEntries: number;
+  filePath?: string;
+  flushTimer?: NodeJS.Timeout;
+  log?: Logger;
+}
+
+const DEFAULT_TTL_MS = 30 * 60 * 1000;
+const DEFAULT_MAX_ENTRIES = 1000;
+const FLUSH_DELAY_MS = 1000;
+
+const caches = new Map<string, DedupCache>();
+
+/**
+ * Create (or replace) the de-duplication cache for an account.
+ * When `filePath` is set, previously persisted entries are loaded from it.
+ */
+export function initDedupCache(accountId: string, options: DedupCacheOptions = {}, log?: Logger): void {
+  disposeDedupCache(accountId);
+
+  const cache: DedupCache = {
+    entries: new Map(),
+    ttlMs: options.ttlMs ?? DEFAULT_TTL_MS,
+    maxEntries: options.maxEntries ?? DEFAULT_MAX_ENTRIES,
+    filePath: options.filePath,
+    log,
+  };
+
+  if (cache.filePath && fs.existsSync(cache.filePath)) {
+    try {
+      const stored = JSON.parse(fs.readFileSync(cache.filePath, 'utf8')) as Array<[string, number]>;
+      const now = Date.now();
+      for (const [key, expiresAt] of stored) {
+        if (expiresAt > now) cache.entries.set(key, expiresAt);
+      }
+      log?.debug?.(`[DingTalk] Loaded ${cache.entries.size} de-duplication entries for ${accountId}`);
+    } catch (err: any) {
+      log?.warn?.(`[DingTalk] Failed to load de-duplication cache ${cache.filePath}: ${err.message}`);
+    }
+  }
+
+  caches.set(accountId, cache);
+}
+
+/**
+ * Check whether any of the given keys has been seen recently, then record them all.
+ * Returns true when the message is a duplicate and should be dropped.
+ */
+export function checkAndRecordMessage(accountId: string, keys: Array<string | undefined>): boolean {
+  if (!caches.has(accountId)) {
+    initDedupCache(accountId);
+  }
+  const cache = caches.get(accountId) as DedupCache;
+
+  const now = Date.now();
+  pruneExpired(cache, now);
+
+  const validKeys = keys.filter((key): key is string => Boolean(key));
+  const duplicate = validKeys.some((key) => cache.entries.has(key));
+
+  const expiresAt = now + cache.ttlMs;
+  for (const key of validKeys) {
+    cache.entries.delete(key);
+    cache.entries.set(key, expiresAt);
+  }
+
+  // Evict the oldest entries once the cache is full
+  while (cache.entries.size > cache.maxEntries) {
+    const oldest = cache.entries.keys().next().value as string;
+    cache.entries.delete(oldest);
+  }
+
+  scheduleFlush(cache);
+  return duplicate;
+}
+
+/**
+ * Flush and drop an account's cache
+ */
+export function disposeDedupCache(accountId: string): void {
+  const cache = caches.get(accountId);
+  if (!cache) return;
+  writeCache(cache);
+  caches.delete(accountId);
+}
+
+function pruneExpired(cache: DedupCache, now: number): void {
+  for (const [key, expiresAt] of cache.entries) {
+    if (expiresAt > now) break;
+    cache.entries.delete(key);
+  }
+}
+
+function scheduleFlush(cache: DedupCache): void {
+  if (!cache.filePath || cache.flushTimer) return;
+  cache.flushTimer = setTimeout(() => writeCache(cache), FLUSH_DELAY_MS);
+}
+
+function writeCache(cache: DedupCache): void {
+  if (cache.flushTimer) {
+    clearTimeout(cache.flushTimer);
+    cache.flushTimer = undefined;
+  }
+  if (!cache.filePath) return;
+
+  try {
+    fs.mkdirSync(path.dirname(cache.filePath), { recursive: true });
+    const tempPath = `${cache.filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify([...cache.entries]));
+    fs.renameSync(tempPath, cache.filePath);
+  } catch (err: any) {
+    cache.log?.warn?.(`[DingTalk] Failed to persist de-duplication cache: ${err.message}`);
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * Contact directory targets
+ *
+ * Proactive sends need a userId, but people know their colleagues by name,
+ * mobile number or email. Targets such as `user:张三`, `mobile:138…`,
+ * `email:…` and `unionid:…` are parsed here; the lookups themselves go
+ * through the DingTalk contact APIs in channel.ts. Resolved userIds, and
+ * lookups that found nobody, are cached per app; a name matching several
+ * people is reported as an error that lists the candidates instead of
+ * guessing.
+ */
+
+import type { DirectoryUser } from './types';
+
+export type DirectoryTargetKind = 'user' | 'mobile' | 'email' | 'unionid';
+
+/**
+ * A target that has to be looked up in the contact directory
+ */
+export interface DirectoryTarget {
+  kind: DirectoryTargetKind;
+  query: string;
+}
+
+const DIRECTORY_TARGET = /^(user|mobile|email|unionid):(.+)$/i;
+
+// Resolved userIds (null: nobody found) keyed by `${scope}|${kind}:${query}`
+const cache = new Map<string, { userId: string | null; expiresAt: number }>();
+
+/**
+ * Parse a `user:`/`mobile:`/`email:`/`unionid:` target (channel prefix already stripped)
+ */
+export function parseDirectoryTarget(target: string): DirectoryTarget | null {
+  const match = DIRECTORY_TARGET.exec(target.trim());
+  if (!match) return null;
+  const kind = match[1].toLowerCase() as DirectoryTargetKind;
+  let query = match[2].trim();
+  if (kind === 'mobile') query = query.replace(/[\s-]/g, '').replace(/^\+86/, '');
+  if (kind === 'email') query = query.toLowerCase();
+  return query ? { kind, query } : null;
+}
+
+/**
+ * Cached userId for a directory target: null when an earlier lookup found nobody,
+ * undefined when there is nothing cached
+ */
+export function getCachedDirectoryUser(scope: string, target: DirectoryTarget): string | null | undefined {
+  const key = cacheKey(scope, target);
+  const entry = cache.get(key);
+  if (!entry) return undefined;
+  if (entry.expiresAt <= Date.now()) {
+    cache.delete(key);
+    return undefined;
+  }
+  return entry.userId;
+}
+
+/**
+ * Remember a resolved userId (or null when nobody was found) for `ttlMs`
+ */
+export function cacheDirectoryUser(scope: string, target: DirectoryTarget, userId: string | null, ttlMs: number): void {
+  cache.set(cacheKey(scope, target), { userId, expiresAt: Date.now() + ttlMs });
+}
+
+/**
+ * Pick the single user a name refers to: an exact name match wins over partial matches.
+ * Throws when nothing or more than one person matches, listing the candidates.
+ */
+export function pickDirectoryUser(name: string, candidates: DirectoryUser[]): DirectoryUser {
+  const exact = candidates.filter((user) => user.name === name);
+  const matches = exact.length > 0 ? exact : candidates;
+  if (matches.length === 1) return matches[0];
+  if (matches.length === 0) throw new Error(`No DingTalk user found for "${name}"`);
+  const listed = matches.map(formatDirectoryUser).join('; ');
+  throw new Error(`"${name}" matches ${matches.length} DingTalk users, use one of: ${listed}`);
+}
+
+/**
+ * Describe a user for candidate lists: name, department, userId target
+ */
+export function formatDirectoryUser(user: DirectoryUser): string {
+  const details = [user.title, user.department].filter(Boolean).join(', ');
+  return `${user.name}${details ? ` (${details})` : ''} → ${user.userId}`;
+}
+
+function cacheKey(scope: string, target: DirectoryTarget): string {
+  return `${scope}|${target.kind}:${target.query}`;
+}
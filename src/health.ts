@@ -0,0 +1,129 @@
+/**
+ * Stream connection health per account
+ *
+ * Tracks the DingTalk Stream connection lifecycle (connects, disconnects,
+ * reconnect attempts) together with inbound and outbound activity. Every
+ * change is pushed to an optional status sink (the gateway's runtime status)
+ * and read back when building account snapshots and the channel summary.
+ * An account is degraded after repeated reconnect or outbound failures.
+ */
+
+import type { StreamHealthSnapshot } from './types';
+
+interface HealthState {
+  snapshot: StreamHealthSnapshot;
+  reconnectFailures: number;
+  outboundFailures: number;
+  sink?: (patch: StreamHealthSnapshot) => void;
+}
+
+// Consecutive failures before an account is reported as degraded
+const DEGRADED_AFTER_FAILURES = 3;
+
+const states = new Map<string, HealthState>();
+
+function createSnapshot(): StreamHealthSnapshot {
+  return {
+    connected: false,
+    degraded: false,
+    lastConnectedAt: null,
+    lastDisconnectedAt: null,
+    reconnectAttempts: 0,
+    lastInboundAt: null,
+    lastOutboundAt: null,
+    lastOutboundError: null,
+    lastError: null,
+  };
+}
+
+function getState(accountId: string): HealthState {
+  let state = states.get(accountId);
+  if (!state) {
+    state = { snapshot: createSnapshot(), reconnectFailures: 0, outboundFailures: 0 };
+    states.set(accountId, state);
+  }
+  return state;
+}
+
+function update(accountId: string, patch: Partial<StreamHealthSnapshot>): void {
+  const state = getState(accountId);
+  state.snapshot = {
+    ...state.snapshot,
+    ...patch,
+    degraded: state.reconnectFailures >= DEGRADED_AFTER_FAILURES || state.outboundFailures >= DEGRADED_AFTER_FAILURES,
+  };
+  state.sink?.(state.snapshot);
+}
+
+/**
+ * Reset an account's health state, publishing changes to `sink`
+ */
+export function initStreamHealth(accountId: string, sink?: (patch: StreamHealthSnapshot) => void): void {
+  states.set(accountId, { snapshot: createSnapshot(), reconnectFailures: 0, outboundFailures: 0, sink });
+  update(accountId, {});
+}
+
+/**
+ * Current health snapshot of an account (undefined before the account started)
+ */
+export function getStreamHealth(accountId: string): StreamHealthSnapshot | undefined {
+  return states.get(accountId)?.snapshot;
+}
+
+/**
+ * Record a successful (re)connect
+ */
+export function recordConnected(accountId: string): void {
+  getState(accountId).reconnectFailures = 0;
+  update(accountId, { connected: true, lastConnectedAt: Date.now() });
+}
+
+/**
+ * Record a lost connection
+ */
+export function recordDisconnected(accountId: string, reason: string): void {
+  update(accountId, { connected: false, lastDisconnectedAt: Date.now(), lastError: reason });
+}
+
+/**
+ * Record a reconnect attempt; `error` marks it as failed
+ */
+export function recordReconnectAttempt(accountId: string, error?: string): void {
+  const state = getState(accountId);
+  if (error) state.reconnectFailures++;
+  update(accountId, {
+    reconnectAttempts: state.snapshot.reconnectAttempts + 1,
+    ...(error ? { lastError: error } : {}),
+  });
+}
+
+/**
+ * Record an inbound message
+ */
+export function recordInbound(accountId: string): void {
+  update(accountId, { lastInboundAt: Date.now() });
+}
+
+/**
+ * Record an outbound send; `error` marks it as failed
+ */
+export function recordOutbound(accountId: string, error?: string): void {
+  const state = getState(accountId);
+  if (error) {
+    state.outboundFailures++;
+    update(accountId, { lastOutboundError: error, lastError: error });
+    return;
+  }
+  state.outboundFailures = 0;
+  update(accountId, { lastOutboundAt: Date.now() });
+}
+
+/**
+ * Drop an account's status sink (its last snapshot stays readable)
+ */
+export function disposeStreamHealth(accountId: string): void {
+  const state = states.get(accountId);
+  if (!state) return;
+  state.sink = undefined;
+  update(accountId, { connected: false });
+}
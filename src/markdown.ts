@@ -0,0 +1,235 @@
+/**
+ * Markdown dialect translation for DingTalk
+ *
+ * DingTalk's markdown renderer supports headings, emphasis, links, simple
+ * lists, quotes and code, but not GFM tables, task lists, nested lists, most
+ * HTML or images that point at local files. These helpers rewrite replies into
+ * forms DingTalk renders well, produce a plain-text fallback for text
+ * messages, and pick a readable message title. Fenced and inline code is left
+ * untouched.
+ */
+
+const FENCE = /^\s*(`{3,}|~{3,})/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+const TABLE_ROW = /^\s*\|.*\|\s*$/;
+const TASK_ITEM = /^(\s*)[-*+]\s+\[([ xX])\]\s+/;
+const NESTED_LIST_ITEM = /^(\s{2,})([-*+]|\d+[.)])\s+/;
+const MARKDOWN_IMAGE = /!\[([^\]]*)\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)/g;
+// Known HTML tags (attributes as name=value) are dropped; other `<…>` (List<String>, x<y and y>z) is prose
+const HTML_TAG =
+  /<\/?(?:p|div|span|section|article|header|footer|nav|main|aside|center|small|big|u|s|del|ins|mark|sub|sup|kbd|abbr|cite|q|ul|ol|li|dl|dt|dd|h[1-6]|a|img|hr|pre|blockquote|table|thead|tbody|tfoot|tr|th|td|caption|details|summary|figure|figcaption)(?:\s+[\w:-]+\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'<>]+))*\s*\/?>/gi;
+const MAX_TITLE_LENGTH = 30;
+
+/**
+ * Rewrite GFM constructs DingTalk doesn't render into supported markdown
+ */
+export function toDingTalkMarkdown(text: string): string {
+  return mapOutsideFences(text, (segment) =>
+    convertTables(segment, renderTableAsList)
+      .split('\n')
+      .map((line) =>
+        mapOutsideInlineCode(line, (part) => rewriteLocalImages(convertHtml(part)))
+          .replace(TASK_ITEM, (_match, indent: string, mark: string) => `${indent}- ${taskEmoji(mark)} `)
+          .replace(NESTED_LIST_ITEM, (_match, indent: string) => `${'　'.repeat(nestingLevel(indent))}◦ `)
+      )
+      .join('\n')
+  );
+}
+
+/**
+ * Render markdown as plain text for text messages
+ */
+export function toPlainText(text: string): string {
+  const plain = mapOutsideFences(
+    text,
+    (segment) =>
+      convertTables(segment, renderTableAsText)
+        .split('\n')
+        .map((line) => plainLine(line))
+        .join('\n'),
+    // Code stays as-is, without the fence lines
+    (fence) =>
+      fence
+        .split('\n')
+        .slice(1, FENCE.test(fence.split('\n').pop() ?? '') ? -1 : undefined)
+        .join('\n')
+  );
+  return plain.replace(/\n{3,}/g, '\n\n').trim();
+}
+
+/**
+ * Pick a message title: the first heading, or else the first sentence of the first line
+ */
+export function extractTitle(text: string, fallback: string): string {
+  const lines = textOutsideFences(text)
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line && !TABLE_SEPARATOR.test(line) && !/^([-*_])\1{2,}$/.test(line));
+
+  const heading = lines.find((line) => /^#{1,6}\s+/.test(line));
+  const source = heading ?? lines[0];
+  if (!source) return fallback;
+
+  let title = plainLine(source)
+    .replace(/^[•◦\s]+/, '')
+    .trim();
+  if (!heading) {
+    // Cut at the end of the first sentence when there is one
+    const sentenceEnd = title.search(/[。！？!?]|\.(\s|$)/);
+    if (sentenceEnd > 0) title = title.slice(0, sentenceEnd);
+  }
+  if (!title) return fallback;
+  return title.length > MAX_TITLE_LENGTH ? `${title.slice(0, MAX_TITLE_LENGTH - 1)}…` : title;
+}
+
+// Apply `transform` to the text between fenced code blocks; fences go through `fenceTransform`
+function mapOutsideFences(
+  text: string,
+  transform: (segment: string) => string,
+  fenceTransform: (fence: string) => string = (fence) => fence
+): string {
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  const output: string[] = [];
+  let segment: string[] = [];
+
+  const flush = () => {
+    if (segment.length > 0) output.push(transform(segment.join('\n')));
+    segment = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const fence = FENCE.exec(lines[i]);
+    if (!fence) {
+      segment.push(lines[i]);
+      continue;
+    }
+    flush();
+    const fenceLines = [lines[i]];
+    while (++i < lines.length) {
+      fenceLines.push(lines[i]);
+      if (lines[i].trim().startsWith(fence[1]) && lines[i].trim().replace(/[`~]/g, '') === '') break;
+    }
+    output.push(fenceTransform(fenceLines.join('\n')));
+  }
+  flush();
+
+  return output.join('\n');
+}
+
+function textOutsideFences(text: string): string {
+  return mapOutsideFences(
+    text,
+    (segment) => segment,
+    () => ''
+  );
+}
+
+// Apply `transform` to a line, skipping `inline code` spans
+function mapOutsideInlineCode(line: string, transform: (part: string) => string): string {
+  return line
+    .split(/(`[^`]*`)/)
+    .map((part, index) => (index % 2 === 1 ? part : transform(part)))
+    .join('');
+}
+
+// Replace GFM tables (header row + separator row + body rows) using `render`
+function convertTables(segment: string, render: (header: string[], rows: string[][]) => string): string {
+  const lines = segment.split('\n');
+  const output: string[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    if (TABLE_ROW.test(lines[i]) && i + 1 < lines.length && TABLE_SEPARATOR.test(lines[i + 1])) {
+      const header = splitTableRow(lines[i]);
+      const rows: string[][] = [];
+      i += 2;
+      while (i < lines.length && TABLE_ROW.test(lines[i])) {
+        rows.push(splitTableRow(lines[i]));
+        i++;
+      }
+      i--;
+      output.push(render(header, rows));
+      continue;
+    }
+    output.push(lines[i]);
+  }
+
+  return output.join('\n');
+}
+
+function splitTableRow(line: string): string[] {
+  return line
+    .trim()
+    .replace(/^\|/, '')
+    .replace(/\|$/, '')
+    .split(/(?<!\\)\|/)
+    .map((cell) => cell.trim().replace(/\\\|/g, '|'));
+}
+
+// Each row becomes a bold label (first column) followed by "column: value" items
+function renderTableAsList(header: string[], rows: string[][]): string {
+  return rows
+    .map((row) => {
+      if (header.length <= 1) return `- ${row[0] ?? ''}`;
+      const items = header
+        .slice(1)
+        .map((column, index) => `- ${column}：${row[index + 1] ?? ''}`)
+        .join('\n');
+      return `**${row[0] ?? ''}**\n${items}`;
+    })
+    .join('\n\n');
+}
+
+function renderTableAsText(header: string[], rows: string[][]): string {
+  return rows
+    .map((row) => {
+      const values = header.slice(1).map((column, index) => `${column}: ${row[index + 1] ?? ''}`);
+      return values.length > 0 ? `${row[0] ?? ''} — ${values.join(', ')}` : (row[0] ?? '');
+    })
+    .join('\n');
+}
+
+function taskEmoji(mark: string): string {
+  return mark === ' ' ? '⬜' : '✅';
+}
+
+function nestingLevel(indent: string): number {
+  return Math.min(Math.floor(indent.replace(/\t/g, '    ').length / 2), 4);
+}
+
+// Keep the HTML DingTalk understands (<font>), translate simple formatting tags, drop other known tags
+function convertHtml(text: string): string {
+  return text
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<(b|strong)>(.*?)<\/\1>/gi, '**$2**')
+    .replace(/<(i|em)>(.*?)<\/\1>/gi, '*$2*')
+    .replace(/<code>(.*?)<\/code>/gi, '`$1`')
+    .replace(HTML_TAG, '');
+}
+
+// Images must be remote URLs or DingTalk media IDs (@...); local paths can't render
+function rewriteLocalImages(text: string): string {
+  return text.replace(MARKDOWN_IMAGE, (match, alt: string, url: string) => {
+    if (/^https?:\/\//i.test(url) || url.startsWith('@')) return match;
+    const name = alt || url.split(/[\\/]/).pop() || '图片';
+    return `🖼️ ${name}`;
+  });
+}
+
+function plainLine(line: string): string {
+  return mapOutsideInlineCode(line, (part) =>
+    convertHtml(part)
+      .replace(/!\[([^\]]*)\]\([^)]*\)/g, (_match, alt: string) => (alt ? `[图片: ${alt}]` : '[图片]'))
+      .replace(/\[([^\]]+)\]\(([^)\s]+)[^)]*\)/g, (_match, label: string, url: string) =>
+        label === url ? url : `${label} (${url})`
+      )
+      .replace(/\*\*(.+?)\*\*|__(.+?)__/g, '$1$2')
+      .replace(/(^|[^\w*])\*(?!\s)(.+?)\*(?!\w)/g, '$1$2')
+      .replace(/~~(.+?)~~/g, '$1')
+  )
+    .replace(/`([^`]*)`/g, '$1')
+    .replace(/^\s*#{1,6}\s+/, '')
+    .replace(/^\s*>\s?/, '')
+    .replace(TASK_ITEM, (_match, indent: string, mark: string) => `${indent}${taskEmoji(mark)} `)
+    .replace(/^(\s*)[-*+]\s+/, (_match, indent: string) => (indent.length >= 2 ? `${indent}◦ ` : '• '))
+    .replace(/^\s*([-*_])\1{2,}\s*$/, '');
+}
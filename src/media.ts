@@ -0,0 +1,180 @@
+/**
+ * Media helpers for the DingTalk channel
+ *
+ * DingTalk's media upload API accepts four media types (image, voice, video,
+ * file), each with its own allowed formats and size limit. These helpers map
+ * local files onto those types without touching the network.
+ */
+
+import * as path from 'node:path';
+import type { DingTalkMediaType, MediaTypeInfo } from './types';
+
+const MB = 1024 * 1024;
+
+/**
+ * Upload size limits per media type, as documented by DingTalk
+ */
+export const MEDIA_SIZE_LIMITS: Record<DingTalkMediaType, number> = {
+  image: 20 * MB,
+  voice: 2 * MB,
+  video: 20 * MB,
+  file: 20 * MB,
+};
+
+/**
+ * Extensions DingTalk renders natively for each media type.
+ * Anything else is uploaded and sent as a plain file.
+ */
+const NATIVE_EXTENSIONS: Record<Exclude<DingTalkMediaType, 'file'>, string[]> = {
+  image: ['jpg', 'jpeg', 'png', 'gif', 'bmp'],
+  voice: ['amr', 'mp3', 'wav'],
+  video: ['mp4'],
+};
+
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  bmp: 'image/bmp',
+  webp: 'image/webp',
+  amr: 'audio/amr',
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  ogg: 'audio/ogg',
+  m4a: 'audio/mp4',
+  mp4: 'video/mp4',
+  mov: 'video/quicktime',
+  pdf: 'application/pdf',
+  doc: 'application/msword',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xls: 'application/vnd.ms-excel',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  ppt: 'application/vnd.ms-powerpoint',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  zip: 'application/zip',
+  rar: 'application/vnd.rar',
+  txt: 'text/plain',
+  md: 'text/markdown',
+  csv: 'text/csv',
+  json: 'application/json',
+};
+
+// Leading bytes identifying common formats; `offset` is where the signature starts
+const MAGIC_SIGNATURES: Array<{ bytes: number[]; offset?: number; extension: string }> = [
+  { bytes: [0x89, 0x50, 0x4e, 0x47], extension: 'png' },
+  { bytes: [0xff, 0xd8, 0xff], extension: 'jpg' },
+  { bytes: [0x47, 0x49, 0x46, 0x38], extension: 'gif' },
+  { bytes: [0x42, 0x4d], extension: 'bmp' },
+  { bytes: [0x25, 0x50, 0x44, 0x46], extension: 'pdf' },
+  { bytes: [0x23, 0x21, 0x41, 0x4d, 0x52], extension: 'amr' },
+  { bytes: [0x49, 0x44, 0x33], extension: 'mp3' },
+  { bytes: [0xff, 0xfb], extension: 'mp3' },
+  { bytes: [0x4f, 0x67, 0x67, 0x53], extension: 'ogg' },
+  { bytes: [0x66, 0x74, 0x79, 0x70], offset: 4, extension: 'mp4' },
+  { bytes: [0x52, 0x61, 0x72, 0x21], extension: 'rar' },
+  { bytes: [0x50, 0x4b, 0x03, 0x04], extension: 'zip' },
+];
+
+/**
+ * Bytes needed by {@link detectFileTypeFromBytes}
+ */
+export const MAGIC_BYTES_LENGTH = 16;
+
+/**
+ * Identify a file from its leading bytes, for downloads served as application/octet-stream
+ */
+export function detectFileTypeFromBytes(head: Buffer): { mimeType: string; extension: string } | null {
+  // RIFF containers carry their format at offset 8
+  if (head.length >= 12 && head.toString('ascii', 0, 4) === 'RIFF') {
+    const format = head.toString('ascii', 8, 12);
+    if (format === 'WEBP') return { mimeType: 'image/webp', extension: 'webp' };
+    if (format === 'WAVE') return { mimeType: 'audio/wav', extension: 'wav' };
+    return null;
+  }
+  for (const signature of MAGIC_SIGNATURES) {
+    const offset = signature.offset ?? 0;
+    if (head.length < offset + signature.bytes.length) continue;
+    if (signature.bytes.every((byte, index) => head[offset + index] === byte)) {
+      return { mimeType: mimeTypeForExtension(signature.extension), extension: signature.extension };
+    }
+  }
+  return null;
+}
+
+/**
+ * Look up the file extension for a MIME type (the subtype when the type isn't known)
+ */
+export function extensionForMimeType(mimeType: string): string {
+  const normalized = mimeType.split(';')[0].trim().toLowerCase();
+  const known = Object.entries(EXTENSION_MIME_TYPES).find(([, type]) => type === normalized);
+  if (known) return known[0];
+  return normalized.split('/')[1]?.replace(/[^a-z0-9]/g, '') || 'bin';
+}
+
+/**
+ * Make a received file name safe to write: no directories, control or reserved characters
+ */
+export function sanitizeFileName(fileName: string): string {
+  const base = path.basename(fileName.replace(/\\/g, '/'));
+  const cleaned = [...base]
+    .map((char) => (char.charCodeAt(0) < 0x20 || '<>:"|?*'.includes(char) ? '_' : char))
+    .join('')
+    .trim();
+  return cleaned && cleaned !== '.' && cleaned !== '..' ? cleaned.slice(0, 200) : '';
+}
+
+/**
+ * Look up the MIME type for a file extension (without the leading dot)
+ */
+export function mimeTypeForExtension(extension: string): string {
+  return EXTENSION_MIME_TYPES[extension.toLowerCase()] || 'application/octet-stream';
+}
+
+/**
+ * Detect which DingTalk media type a local file should be uploaded as
+ */
+export function detectMediaType(filePath: string): MediaTypeInfo {
+  // Ignore query strings and fragments on URLs (e.g. https://host/chart.png?sig=...)
+  const pathname = /^[a-z][a-z\d+.-]*:\/\//i.test(filePath) ? filePath.split(/[?#]/)[0] : filePath;
+  const extension = path.extname(pathname).slice(1).toLowerCase();
+  const mimeType = mimeTypeForExtension(extension);
+
+  for (const [mediaType, extensions] of Object.entries(NATIVE_EXTENSIONS)) {
+    if (extensions.includes(extension)) {
+      return { mediaType: mediaType as DingTalkMediaType, mimeType, extension };
+    }
+  }
+
+  return { mediaType: 'file', mimeType, extension: extension || 'bin' };
+}
+
+/**
+ * Throw if a file is too large for the given DingTalk media type
+ */
+export function assertMediaSize(mediaType: DingTalkMediaType, size: number, fileName: string): void {
+  const limit = MEDIA_SIZE_LIMITS[mediaType];
+  if (size > limit) {
+    throw new Error(
+      `[DingTalk] ${fileName} is ${(size / MB).toFixed(2)}MB, exceeding the ${limit / MB}MB limit for ${mediaType}`
+    );
+  }
+}
+
+/**
+ * Estimate audio duration in milliseconds.
+ * WAV durations are read from the header; other formats are estimated from
+ * their typical bitrate, since DingTalk only uses the value for display.
+ */
+export function estimateAudioDurationMs(buffer: Buffer, extension: string): number {
+  if (extension === 'wav' && buffer.length > 44 && buffer.toString('ascii', 0, 4) === 'RIFF') {
+    const byteRate = buffer.readUInt32LE(28);
+    if (byteRate > 0) {
+      return Math.max(1000, Math.round(((buffer.length - 44) / byteRate) * 1000));
+    }
+  }
+
+  // AMR-NB ~12.2kbps, MP3 assumed 128kbps
+  const bytesPerSecond = extension === 'amr' ? 1600 : 16000;
+  return Math.max(1000, Math.round((buffer.length / bytesPerSecond) * 1000));
+}
@@ -0,0 +1,136 @@
+/**
+ * @mentions in and out
+ *
+ * Inbound: the bot's own @name is removed from the message text and the other
+ * users in `atUsers` are collected for the agent. DingTalk doesn't send the
+ * bot's display name, so it is learned from messages in which the bot is the
+ * only one mentioned. Where the bot receives every group message, trigger
+ * prefixes (`/ai …`) and keywords stand in for the @mention.
+ *
+ * Outbound: replies mention people with a text directive, resolved against
+ * the participants seen in the conversation:
+ *
+ * - [[at: 张三, 李四]]   (display names or userIds)
+ * - [[at: all]]          (@所有人)
+ */
+
+import type { ConversationParticipant, DingTalkInboundMessage, MentionedUser, ReplyMention } from './types';
+
+const MENTION_DIRECTIVE = /\[\[at:\s*([^\]]+)\]\]/gi;
+// An @token starts the text or follows whitespace (`me@home` is no mention)
+const MENTION_TOKEN = /(?<!\S)@[^\s@]+/g;
+const AT_ALL_ITEMS = new Set(['all', '所有人', 'everyone']);
+
+// Bot display names learned per chatbotUserId
+const botNames = new Map<string, string>();
+
+/**
+ * Remove the bot's @name from inbound text and collect the other mentioned users
+ */
+export function extractInboundMentions(
+  data: DingTalkInboundMessage,
+  text: string,
+  participants: ConversationParticipant[] = []
+): { text: string; mentioned: MentionedUser[] } {
+  const atUsers = data.atUsers ?? [];
+  const others = atUsers.filter((user) => user.dingtalkId !== data.chatbotUserId);
+
+  // Only the bot mentioned and a single @token, at the start or end of the text (where DingTalk
+  // puts the mention): that token is the bot's name
+  const trimmed = text.trim();
+  const tokens = trimmed.match(MENTION_TOKEN) ?? [];
+  if (
+    data.chatbotUserId &&
+    others.length === 0 &&
+    atUsers.length === 1 &&
+    tokens.length === 1 &&
+    (trimmed.startsWith(tokens[0]) || trimmed.endsWith(tokens[0]))
+  ) {
+    botNames.set(data.chatbotUserId, tokens[0].slice(1));
+  }
+
+  let stripped = text;
+  const botName = botNames.get(data.chatbotUserId);
+  if (botName && data.isInAtList !== false) {
+    stripped = stripped.replace(new RegExp(`(?<!\\S)@${escapeRegExp(botName)}(?=\\s|$)\\s*`, 'g'), '');
+  }
+
+  const mentioned = others.map((user) => {
+    const userId = user.staffId || user.dingtalkId;
+    const name = participants.find((participant) => participant.userId === userId)?.name;
+    return { userId, dingtalkId: user.dingtalkId, ...(name ? { name } : {}) };
+  });
+  return { text: stripped.trim(), mentioned };
+}
+
+/**
+ * Match a message that doesn't @mention the bot against trigger prefixes (stripped from the
+ * text) and keywords (case-insensitive, kept); returns the text for the agent, an empty string
+ * for a bare prefix with nothing after it, or null
+ */
+export function matchTrigger(text: string, triggers: { prefixes?: string[]; keywords?: string[] }): string | null {
+  const trimmed = text.trim();
+  const lower = trimmed.toLowerCase();
+  for (const prefix of triggers.prefixes ?? []) {
+    const wanted = prefix.trim().toLowerCase();
+    if (!wanted || !lower.startsWith(wanted)) continue;
+    // '/ai' triggers '/ai 你好' but not '/aid'
+    const rest = trimmed.slice(wanted.length);
+    if (rest && !/^[\s,，:：]/.test(rest)) continue;
+    return rest.replace(/^[\s,，:：]+/, '');
+  }
+  const keywords = (triggers.keywords ?? []).map((keyword) => keyword.trim().toLowerCase()).filter(Boolean);
+  return keywords.some((keyword) => lower.includes(keyword)) ? trimmed : null;
+}
+
+/**
+ * Describe mentioned users for the agent: `张三 (id:user123), user456`
+ */
+export function formatMentionedUsers(mentioned: MentionedUser[]): string {
+  return mentioned.map((user) => (user.name ? `${user.name} (id:${user.userId})` : user.userId)).join(', ');
+}
+
+/**
+ * Strip `[[at: …]]` directives from reply text, returning the requested names/userIds
+ */
+export function extractMentionDirectives(text: string): { text: string; items: string[]; atAll: boolean } {
+  const items: string[] = [];
+  let atAll = false;
+  const stripped = text.replace(MENTION_DIRECTIVE, (_match, body: string) => {
+    for (const item of body.split(/[,，]/).map((part) => part.trim().replace(/^@/, ''))) {
+      if (!item) continue;
+      if (AT_ALL_ITEMS.has(item.toLowerCase())) atAll = true;
+      else if (!items.includes(item)) items.push(item);
+    }
+    return '';
+  });
+  return { text: stripped.trim(), items, atAll };
+}
+
+/**
+ * Resolve directive items to users: a participant's userId, then an exact display name,
+ * then a case-insensitive one. Items that match nobody (or several people) stay text-only.
+ */
+export function resolveMentions(items: string[], participants: ConversationParticipant[]): ReplyMention[] {
+  return items.map((item) => {
+    const byId = participants.find((participant) => participant.userId === item);
+    if (byId) return { userId: byId.userId, name: byId.name || byId.userId };
+    const exact = participants.filter((participant) => participant.name === item);
+    const matches =
+      exact.length > 0
+        ? exact
+        : participants.filter((participant) => participant.name?.toLowerCase() === item.toLowerCase());
+    return matches.length === 1 ? { userId: matches[0].userId, name: matches[0].name || item } : { name: item };
+  });
+}
+
+/**
+ * Mention text for channels without a structured @ field: `@张三 @李四 @所有人`
+ */
+export function formatMentionText(mentions: ReplyMention[], atAll?: boolean): string {
+  return [...mentions.map((mention) => `@${mention.name}`), ...(atAll ? ['@所有人'] : [])].join(' ');
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
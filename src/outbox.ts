@@ -0,0 +1,279 @@
+/**
+ * Persistent outbound queue (deliveryMode 'queued')
+ *
+ * Outbound messages are written to a per-account JSON file before they are
+ * sent, so a failed send survives restarts and is retried on a backoff
+ * schedule. Within a conversation only the oldest pending message is
+ * attempted, which keeps delivery order. Messages that run out of attempts,
+ * or fail permanently, move to a dead-letter list where they can be listed
+ * and replayed.
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { randomUUID } from 'node:crypto';
+import type { Logger, OutboxEntry, OutboxMessage } from './types';
+
+/**
+ * Options for an account's outbound queue
+ */
+export interface OutboxOptions {
+  filePath: string;
+  maxAttempts: number;
+  retryBaseMs: number;
+  retryMaxMs: number;
+  maxDeadLetters: number;
+  /** Send one message; a thrown error counts as a failed attempt */
+  deliver: (entry: OutboxEntry) => Promise<unknown>;
+  /** Whether a send error is worth retrying (default: always) */
+  isRetryable?: (err: any) => boolean;
+  log?: Logger;
+}
+
+/**
+ * Outcome of a message's first delivery attempt
+ */
+export interface OutboxEnqueueResult {
+  status: 'sent' | 'queued' | 'dead';
+  entry: OutboxEntry;
+  result?: unknown;
+}
+
+interface OutboxFileData {
+  version: 1;
+  pending: OutboxEntry[];
+  dead: OutboxEntry[];
+}
+
+interface Outbox {
+  options: OutboxOptions;
+  pending: OutboxEntry[];
+  dead: OutboxEntry[];
+  timer: NodeJS.Timeout | null;
+  processing: boolean;
+  rerun: boolean;
+  // Callers waiting for the first attempt of a message they enqueued
+  waiters: Map<string, (result: OutboxEnqueueResult) => void>;
+}
+
+const outboxes = new Map<string, Outbox>();
+
+/**
+ * Load an account's queue from disk and resume delivery
+ */
+export function initOutbox(accountId: string, options: OutboxOptions): void {
+  disposeOutbox(accountId);
+  const data = readOutboxFile(options.filePath);
+  const outbox: Outbox = {
+    options,
+    pending: data.pending,
+    dead: data.dead,
+    timer: null,
+    processing: false,
+    rerun: false,
+    waiters: new Map(),
+  };
+  outboxes.set(accountId, outbox);
+  if (outbox.pending.length > 0) {
+    options.log?.info?.(`[DingTalk] Resuming ${outbox.pending.length} queued outbound message(s) for ${accountId}`);
+  }
+  void processOutbox(accountId);
+}
+
+/**
+ * Whether the account's queue is running in this process
+ */
+export function hasOutbox(accountId: string): boolean {
+  return outboxes.has(accountId);
+}
+
+/**
+ * Persist a message and wait for its first delivery attempt.
+ * Messages queued behind an earlier one in the same conversation resolve as 'queued'.
+ */
+export function enqueueOutbound(accountId: string, message: OutboxMessage): Promise<OutboxEnqueueResult> {
+  const outbox = outboxes.get(accountId);
+  if (!outbox) throw new Error(`Outbound queue for account ${accountId} is not running`);
+
+  const now = Date.now();
+  const entry: OutboxEntry = {
+    ...message,
+    id: randomUUID(),
+    accountId,
+    attempts: 0,
+    createdAt: now,
+    nextAttemptAt: now,
+  };
+  outbox.pending.push(entry);
+  saveOutbox(outbox);
+
+  return new Promise((resolve) => {
+    // Behind an earlier message of the same conversation: report it as queued right away
+    if (outbox.pending.some((other) => other !== entry && other.to === entry.to)) {
+      resolve({ status: 'queued', entry });
+    } else {
+      outbox.waiters.set(entry.id, resolve);
+    }
+    void processOutbox(accountId);
+  });
+}
+
+/**
+ * Pending and dead-lettered messages of one account, or of all accounts
+ */
+export function listOutbox(accountId?: string): { pending: OutboxEntry[]; dead: OutboxEntry[] } {
+  const selected = [...outboxes.entries()].filter(([id]) => !accountId || id === accountId).map(([, outbox]) => outbox);
+  return {
+    pending: selected.flatMap((outbox) => outbox.pending),
+    dead: selected.flatMap((outbox) => outbox.dead),
+  };
+}
+
+/**
+ * Move dead letters (all, or the given IDs) back into the queue with fresh attempts.
+ * Returns the replayed entries.
+ */
+export function replayDeadLetters(accountId: string, ids?: string[]): OutboxEntry[] {
+  const outbox = outboxes.get(accountId);
+  if (!outbox) return [];
+
+  const wanted = ids && ids.length > 0 ? new Set(ids) : null;
+  const replayed = outbox.dead.filter((entry) => !wanted || wanted.has(entry.id));
+  if (replayed.length === 0) return [];
+
+  const now = Date.now();
+  outbox.dead = outbox.dead.filter((entry) => !replayed.includes(entry));
+  for (const entry of replayed) {
+    entry.attempts = 0;
+    entry.nextAttemptAt = now;
+    delete entry.deadAt;
+  }
+  // Keep conversations in their original order
+  outbox.pending = [...outbox.pending, ...replayed].sort((a, b) => a.createdAt - b.createdAt);
+  saveOutbox(outbox);
+  void processOutbox(accountId);
+  return replayed;
+}
+
+/**
+ * Stop an account's queue; pending messages stay on disk for the next start
+ */
+export function disposeOutbox(accountId: string): void {
+  const outbox = outboxes.get(accountId);
+  if (!outbox) return;
+  if (outbox.timer) clearTimeout(outbox.timer);
+  outbox.timer = null;
+  outbox.waiters.forEach((resolve, id) => {
+    const entry = outbox.pending.find((pending) => pending.id === id);
+    if (entry) resolve({ status: 'queued', entry });
+  });
+  outbox.waiters.clear();
+  outboxes.delete(accountId);
+}
+
+// Attempt every conversation's oldest due message, then schedule the next due retry
+async function processOutbox(accountId: string): Promise<void> {
+  const outbox = outboxes.get(accountId);
+  if (!outbox) return;
+  if (outbox.processing) {
+    outbox.rerun = true;
+    return;
+  }
+  outbox.processing = true;
+  if (outbox.timer) clearTimeout(outbox.timer);
+  outbox.timer = null;
+
+  try {
+    do {
+      outbox.rerun = false;
+      const heads = conversationHeads(outbox.pending).filter((entry) => entry.nextAttemptAt <= Date.now());
+      await Promise.all(heads.map((entry) => attemptDelivery(outbox, entry)));
+      if (heads.length > 0) outbox.rerun = true;
+      // Stop once disposed; a restart picks the queue up again from disk
+    } while (outbox.rerun && outboxes.get(accountId) === outbox);
+  } finally {
+    outbox.processing = false;
+  }
+
+  if (outboxes.get(accountId) !== outbox) return;
+  const heads = conversationHeads(outbox.pending);
+  if (heads.length === 0) return;
+  const nextAt = Math.min(...heads.map((entry) => entry.nextAttemptAt));
+  outbox.timer = setTimeout(() => void processOutbox(accountId), Math.max(nextAt - Date.now(), 0));
+  outbox.timer.unref?.();
+}
+
+async function attemptDelivery(outbox: Outbox, entry: OutboxEntry): Promise<void> {
+  const { options } = outbox;
+  entry.attempts++;
+  try {
+    const result = await options.deliver(entry);
+    outbox.pending = outbox.pending.filter((pending) => pending !== entry);
+    saveOutbox(outbox);
+    settle(outbox, { status: 'sent', entry, result });
+    return;
+  } catch (err: any) {
+    entry.lastError = err.message;
+    const retryable = options.isRetryable?.(err) ?? true;
+    if (!retryable || entry.attempts >= options.maxAttempts) {
+      entry.deadAt = Date.now();
+      outbox.pending = outbox.pending.filter((pending) => pending !== entry);
+      outbox.dead = [...outbox.dead, entry].slice(-options.maxDeadLetters);
+      options.log?.warn?.(
+        `[DingTalk] Outbound message ${entry.id} to ${entry.to} dead-lettered after ${entry.attempts} attempt(s): ${err.message}`
+      );
+      saveOutbox(outbox);
+      settle(outbox, { status: 'dead', entry });
+      return;
+    }
+    const delay = Math.min(options.retryBaseMs * 2 ** (entry.attempts - 1), options.retryMaxMs);
+    entry.nextAttemptAt = Date.now() + delay;
+    options.log?.debug?.(
+      `[DingTalk] Outbound message ${entry.id} to ${entry.to} failed (attempt ${entry.attempts}), retrying in ${Math.round(delay / 1000)}s: ${err.message}`
+    );
+    saveOutbox(outbox);
+    settle(outbox, { status: 'queued', entry });
+  }
+}
+
+function settle(outbox: Outbox, result: OutboxEnqueueResult): void {
+  const resolve = outbox.waiters.get(result.entry.id);
+  if (!resolve) return;
+  outbox.waiters.delete(result.entry.id);
+  resolve(result);
+}
+
+// The oldest pending message of each conversation
+function conversationHeads(pending: OutboxEntry[]): OutboxEntry[] {
+  const heads = new Map<string, OutboxEntry>();
+  for (const entry of pending) {
+    if (!heads.has(entry.to)) heads.set(entry.to, entry);
+  }
+  return [...heads.values()];
+}
+
+function readOutboxFile(filePath: string): { pending: OutboxEntry[]; dead: OutboxEntry[] } {
+  try {
+    const data = JSON.parse(fs.readFileSync(filePath, 'utf8')) as Partial<OutboxFileData>;
+    return {
+      pending: Array.isArray(data.pending) ? data.pending.filter((entry) => entry && entry.id && entry.to) : [],
+      dead: Array.isArray(data.dead) ? data.dead.filter((entry) => entry && entry.id && entry.to) : [],
+    };
+  } catch {
+    return { pending: [], dead: [] };
+  }
+}
+
+// Atomically replace the queue file
+function saveOutbox(outbox: Outbox): void {
+  const { filePath, log } = outbox.options;
+  try {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    const data: OutboxFileData = { version: 1, pending: outbox.pending, dead: outbox.dead };
+    const tempPath = `${filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(data));
+    fs.renameSync(tempPath, filePath);
+  } catch (err: any) {
+    log?.warn?.(`[DingTalk] Failed to save outbound queue: ${err.message}`);
+  }
+}
@@ -0,0 +1,172 @@
+/**
+ * DM pairing store for dmPolicy 'pairing'
+ *
+ * Tracks one-time pairing codes handed to unknown senders and the senders an
+ * operator has approved through the `dingtalk.pairing.approve` gateway method.
+ * Codes and approvals belong to the account (bot) the sender paired with, so
+ * an approval on one account doesn't admit the sender on the others. Codes
+ * expire after a TTL and each sender holds a bounded number of pending codes.
+ * Approvals made through the SDK's own pairing store (CLI) are read
+ * separately via the runtime.
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { randomInt } from 'node:crypto';
+import type { PairingRequest } from './types';
+
+interface PairingApproval {
+  accountId: string;
+  senderId: string;
+}
+
+interface PairingStoreData {
+  version: 2;
+  pending: PairingRequest[];
+  approved: PairingApproval[];
+}
+
+// Version 1 stores were shared by all accounts; their entries are taken over by the default account
+const LEGACY_ACCOUNT_ID = 'default';
+
+// Human-friendly: no ambiguous characters (0O1I), same alphabet as the SDK pairing store
+const PAIRING_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const PAIRING_CODE_LENGTH = 8;
+
+function readStore(filePath: string): PairingStoreData {
+  try {
+    const data = JSON.parse(fs.readFileSync(filePath, 'utf8')) as {
+      pending?: Array<Partial<PairingRequest>>;
+      approved?: Array<string | PairingApproval>;
+    };
+    return {
+      version: 2,
+      pending: (Array.isArray(data.pending) ? data.pending : []).map(
+        (request) => ({ ...request, accountId: request.accountId || LEGACY_ACCOUNT_ID }) as PairingRequest
+      ),
+      approved: (Array.isArray(data.approved) ? data.approved : []).map((entry) =>
+        typeof entry === 'string' ? { accountId: LEGACY_ACCOUNT_ID, senderId: entry } : entry
+      ),
+    };
+  } catch {
+    return { version: 2, pending: [], approved: [] };
+  }
+}
+
+function writeStore(filePath: string, data: PairingStoreData): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(data, null, 2));
+  fs.renameSync(tempPath, filePath);
+}
+
+function pruneExpired(data: PairingStoreData, now: number): boolean {
+  const before = data.pending.length;
+  data.pending = data.pending.filter((request) => request.expiresAt > now);
+  return data.pending.length !== before;
+}
+
+function isApproved(data: PairingStoreData, accountId: string, senderId: string): boolean {
+  return data.approved.some((entry) => entry.accountId === accountId && entry.senderId === senderId);
+}
+
+/**
+ * Generate a random pairing code
+ */
+export function generatePairingCode(): string {
+  let code = '';
+  for (let i = 0; i < PAIRING_CODE_LENGTH; i++) {
+    code += PAIRING_CODE_ALPHABET[randomInt(0, PAIRING_CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+/**
+ * Check whether a sender was approved for an account through this store
+ */
+export function isPairingApproved(filePath: string, accountId: string, senderId: string): boolean {
+  return isApproved(readStore(filePath), accountId, senderId);
+}
+
+/**
+ * Record a pending pairing code for a sender.
+ * When the sender already holds `maxPendingPerSender` unexpired codes, no new code
+ * is stored and the newest existing request is returned with `created: false`.
+ */
+export function recordPairingRequest(
+  filePath: string,
+  params: {
+    accountId: string;
+    senderId: string;
+    code: string;
+    issuedBySdk?: boolean;
+    ttlMs: number;
+    maxPendingPerSender: number;
+    senderName?: string;
+  }
+): { request: PairingRequest; created: boolean } {
+  const data = readStore(filePath);
+  const now = Date.now();
+  const expiredRemoved = pruneExpired(data, now);
+
+  const senderPending = data.pending.filter(
+    (request) => request.accountId === params.accountId && request.senderId === params.senderId
+  );
+  const existing = senderPending.find((request) => request.code === params.code);
+  if (existing || senderPending.length >= params.maxPendingPerSender) {
+    if (expiredRemoved) writeStore(filePath, data);
+    return { request: existing ?? senderPending[senderPending.length - 1], created: false };
+  }
+
+  const request: PairingRequest = {
+    accountId: params.accountId,
+    senderId: params.senderId,
+    senderName: params.senderName,
+    code: params.code,
+    issuedBySdk: params.issuedBySdk || undefined,
+    createdAt: now,
+    expiresAt: now + params.ttlMs,
+  };
+  data.pending.push(request);
+  writeStore(filePath, data);
+  return { request, created: true };
+}
+
+/**
+ * Approve a pending pairing code (of any account, or only of `accountId`), returning the
+ * approved request (null if unknown or expired)
+ */
+export function approvePairingCode(filePath: string, code: string, accountId?: string): PairingRequest | null {
+  const normalized = code.trim().toUpperCase();
+  const data = readStore(filePath);
+  const expiredRemoved = pruneExpired(data, Date.now());
+
+  const request = data.pending.find(
+    (entry) => entry.code === normalized && (!accountId || entry.accountId === accountId)
+  );
+  if (!request) {
+    if (expiredRemoved) writeStore(filePath, data);
+    return null;
+  }
+
+  // Approving a sender clears all of their pending codes for that account
+  data.pending = data.pending.filter(
+    (entry) => entry.accountId !== request.accountId || entry.senderId !== request.senderId
+  );
+  if (!isApproved(data, request.accountId, request.senderId)) {
+    data.approved.push({ accountId: request.accountId, senderId: request.senderId });
+  }
+  writeStore(filePath, data);
+  return request;
+}
+
+/**
+ * List unexpired pending pairing requests (of all accounts, or of one), oldest first
+ */
+export function listPairingRequests(filePath: string, accountId?: string): PairingRequest[] {
+  const data = readStore(filePath);
+  if (pruneExpired(data, Date.now())) writeStore(filePath, data);
+  return data.pending
+    .filter((request) => !accountId || request.accountId === accountId)
+    .sort((a, b) => a.createdAt - b.createdAt);
+}
@@ -0,0 +1,177 @@
+/**
+ * Outbound rate limiting
+ *
+ * DingTalk throttles robots per conversation (around 20 messages a minute in
+ * a group) and per app. Sends wait in a FIFO queue per conversation until
+ * every token bucket they draw from has a token; a bucket holds one minute's
+ * worth of tokens, so short bursts go out immediately. While a send is still
+ * queued, a newer send with the same merge key can be folded into it (e.g.
+ * two updates of the same card), so a backed-up queue doesn't replay stale
+ * content.
+ */
+
+import type { RateLimitStats } from './types';
+
+/**
+ * A token bucket a send draws from
+ */
+export interface RateLimitBucket {
+  key: string;
+  perMinute: number;
+}
+
+/**
+ * A send waiting for its rate limit
+ */
+export interface RateLimitedSend<P, R> {
+  /** Statistics scope (the app) */
+  scope: string;
+  /** Sends sharing a queue key go out in order */
+  queueKey: string;
+  buckets: RateLimitBucket[];
+  payload: P;
+  send: (payload: P) => Promise<R>;
+  /** Only queued sends with the same merge key are merged */
+  mergeKey?: string;
+  /** Combine a queued payload with a newer one; undefined when they can't be merged */
+  merge?: (queued: P, next: P) => P | undefined;
+}
+
+interface Bucket {
+  tokens: number;
+  capacity: number;
+  updatedAt: number;
+}
+
+interface QueueEntry {
+  request: RateLimitedSend<any, any>;
+  enqueuedAt: number;
+  waiters: Array<{ resolve: (value: any) => void; reject: (err: unknown) => void }>;
+}
+
+interface ScopeStats {
+  queueDepth: number;
+  sent: number;
+  merged: number;
+  totalWaitMs: number;
+  lastWaitMs: number;
+  maxWaitMs: number;
+}
+
+const buckets = new Map<string, Bucket>();
+const queues = new Map<string, QueueEntry[]>();
+const stats = new Map<string, ScopeStats>();
+
+/**
+ * Queue a send behind its conversation's earlier sends and its rate limits
+ */
+export function enqueueRateLimited<P, R>(request: RateLimitedSend<P, R>): Promise<R> {
+  return new Promise<R>((resolve, reject) => {
+    const scopeStats = getScopeStats(request.scope);
+    let queue = queues.get(request.queueKey);
+
+    // Only the newest queued entry may absorb the send, so ordering is preserved
+    const last = queue?.[queue.length - 1];
+    if (last && request.mergeKey && last.request.mergeKey === request.mergeKey && request.merge) {
+      const merged = request.merge(last.request.payload, request.payload);
+      if (merged !== undefined) {
+        last.request = { ...last.request, payload: merged };
+        last.waiters.push({ resolve, reject });
+        scopeStats.merged++;
+        return;
+      }
+    }
+
+    const entry: QueueEntry = { request, enqueuedAt: Date.now(), waiters: [{ resolve, reject }] };
+    scopeStats.queueDepth++;
+    if (queue) {
+      queue.push(entry);
+      return;
+    }
+    queue = [entry];
+    queues.set(request.queueKey, queue);
+    void drainQueue(request.queueKey, queue);
+  });
+}
+
+/**
+ * Queue statistics for a scope (all zero before its first send)
+ */
+export function getRateLimitStats(scope: string): RateLimitStats {
+  const scopeStats = stats.get(scope);
+  const oldest = [...queues.values()]
+    .flat()
+    .filter((entry) => entry.request.scope === scope)
+    .reduce((min, entry) => Math.min(min, entry.enqueuedAt), Infinity);
+  return {
+    queueDepth: scopeStats?.queueDepth ?? 0,
+    oldestQueuedMs: Number.isFinite(oldest) ? Date.now() - oldest : 0,
+    lastWaitMs: scopeStats?.lastWaitMs ?? 0,
+    averageWaitMs: scopeStats?.sent ? Math.round(scopeStats.totalWaitMs / scopeStats.sent) : 0,
+    maxWaitMs: scopeStats?.maxWaitMs ?? 0,
+    merged: scopeStats?.merged ?? 0,
+  };
+}
+
+// Send queued entries one at a time, waiting for tokens before each
+async function drainQueue(queueKey: string, queue: QueueEntry[]): Promise<void> {
+  while (queue.length > 0) {
+    const entry = queue[0];
+    const waitMs = Math.max(0, ...entry.request.buckets.map((spec) => timeUntilToken(spec)));
+    if (waitMs > 0) {
+      await new Promise((resolve) => setTimeout(resolve, waitMs));
+      continue;
+    }
+
+    entry.request.buckets.forEach((spec) => getBucket(spec).tokens--);
+    queue.shift();
+
+    const { request } = entry;
+    const scopeStats = getScopeStats(request.scope);
+    const waited = Date.now() - entry.enqueuedAt;
+    scopeStats.queueDepth--;
+    scopeStats.sent++;
+    scopeStats.totalWaitMs += waited;
+    scopeStats.lastWaitMs = waited;
+    scopeStats.maxWaitMs = Math.max(scopeStats.maxWaitMs, waited);
+
+    try {
+      const result = await request.send(request.payload);
+      entry.waiters.forEach((waiter) => waiter.resolve(result));
+    } catch (err) {
+      entry.waiters.forEach((waiter) => waiter.reject(err));
+    }
+  }
+  queues.delete(queueKey);
+}
+
+function getScopeStats(scope: string): ScopeStats {
+  let scopeStats = stats.get(scope);
+  if (!scopeStats) {
+    scopeStats = { queueDepth: 0, sent: 0, merged: 0, totalWaitMs: 0, lastWaitMs: 0, maxWaitMs: 0 };
+    stats.set(scope, scopeStats);
+  }
+  return scopeStats;
+}
+
+// Refill a bucket for the time passed; a changed limit resizes it
+function getBucket(spec: RateLimitBucket): Bucket {
+  const now = Date.now();
+  const capacity = Math.max(spec.perMinute, 1);
+  let bucket = buckets.get(spec.key);
+  if (!bucket) {
+    bucket = { tokens: capacity, capacity, updatedAt: now };
+    buckets.set(spec.key, bucket);
+    return bucket;
+  }
+  bucket.tokens = Math.min(capacity, bucket.tokens + ((now - bucket.updatedAt) * capacity) / 60000);
+  bucket.capacity = capacity;
+  bucket.updatedAt = now;
+  return bucket;
+}
+
+function timeUntilToken(spec: RateLimitBucket): number {
+  const bucket = getBucket(spec);
+  if (bucket.tokens >= 1) return 0;
+  return Math.ceil(((1 - bucket.tokens) * 60000) / bucket.capacity);
+}
@@ -0,0 +1,141 @@
+/**
+ * Inline text attachments
+ *
+ * Text-like files (plain text, Markdown, CSV, JSON, logs, source code) that
+ * users drop into a conversation are decoded and handed to the agent as part
+ * of the message body, instead of only a file name and a temp path. Office
+ * PCs in China often save text as GBK, so content that isn't valid UTF-8 is
+ * decoded as GB18030 (a superset of GBK). Files over the size budget are cut
+ * off there, with a note.
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+
+const TEXT_EXTENSIONS = new Set([
+  'txt',
+  'text',
+  'md',
+  'markdown',
+  'csv',
+  'tsv',
+  'json',
+  'jsonl',
+  'log',
+  'yaml',
+  'yml',
+  'toml',
+  'ini',
+  'conf',
+  'cfg',
+  'properties',
+  'xml',
+  'html',
+  'htm',
+  'css',
+  'scss',
+  'sql',
+  'sh',
+  'bash',
+  'bat',
+  'ps1',
+  'py',
+  'js',
+  'mjs',
+  'cjs',
+  'ts',
+  'tsx',
+  'jsx',
+  'vue',
+  'java',
+  'kt',
+  'go',
+  'rs',
+  'c',
+  'h',
+  'cpp',
+  'hpp',
+  'cs',
+  'rb',
+  'php',
+  'swift',
+  'lua',
+  'r',
+  'diff',
+  'patch',
+]);
+
+const TEXT_MIME_TYPES = new Set(['application/json', 'application/xml', 'application/x-yaml', 'application/x-sh']);
+
+/**
+ * Whether a file looks like text, by extension or MIME type
+ */
+export function isTextAttachment(filePath: string, mimeType?: string): boolean {
+  const extension = path.extname(filePath).slice(1).toLowerCase();
+  if (TEXT_EXTENSIONS.has(extension)) return true;
+  const type = mimeType?.split(';')[0].trim().toLowerCase() ?? '';
+  return type.startsWith('text/') || TEXT_MIME_TYPES.has(type);
+}
+
+/**
+ * Decode file content: UTF-8 (BOM stripped) or UTF-16 with a BOM, otherwise GB18030.
+ * `partial` content may end in the middle of a character, which is dropped.
+ * Returns null for content that looks binary (NUL bytes outside UTF-16).
+ */
+export function decodeTextBuffer(buffer: Buffer, partial = false): string | null {
+  if (buffer[0] === 0xff && buffer[1] === 0xfe) return new TextDecoder('utf-16le').decode(buffer.subarray(2));
+  if (buffer[0] === 0xfe && buffer[1] === 0xff) return new TextDecoder('utf-16be').decode(buffer.subarray(2));
+  if (buffer.includes(0)) return null;
+
+  // A cut-off UTF-8 character is at most 3 bytes long
+  const utf8 = new TextDecoder('utf-8', { fatal: true });
+  for (let cut = 0; cut <= (partial ? 3 : 0) && cut < buffer.length; cut++) {
+    try {
+      return utf8.decode(buffer.subarray(0, buffer.length - cut));
+    } catch {
+      // Not UTF-8 (yet): try a shorter tail, then GB18030
+    }
+  }
+  const text = new TextDecoder('gb18030').decode(buffer);
+  return partial ? text.replace(/\uFFFD$/, '') : text;
+}
+
+/**
+ * Read a text attachment for the agent, up to `maxBytes`; longer files are cut off there.
+ * Returns null when the content doesn't decode as text.
+ */
+export function readTextAttachment(
+  filePath: string,
+  maxBytes: number
+): { text: string; truncated: boolean; totalBytes: number; readBytes: number } | null {
+  const totalBytes = fs.statSync(filePath).size;
+  const buffer = Buffer.alloc(Math.min(totalBytes, maxBytes));
+  const fd = fs.openSync(filePath, 'r');
+  let readBytes: number;
+  try {
+    readBytes = fs.readSync(fd, buffer, 0, buffer.length, 0);
+  } finally {
+    fs.closeSync(fd);
+  }
+  const truncated = totalBytes > readBytes;
+  const text = decodeTextBuffer(buffer.subarray(0, readBytes), truncated);
+  return text === null ? null : { text, truncated, totalBytes, readBytes };
+}
+
+/**
+ * Wrap attachment content for the message body, noting when it was cut off (sizes are of the
+ * file as stored, whatever its encoding)
+ */
+export function formatTextAttachment(
+  fileName: string,
+  content: { text: string; truncated: boolean; totalBytes: number; readBytes: number }
+): string {
+  const note = content.truncated
+    ? `\n[内容已截断：文件共 ${formatKB(content.totalBytes)}，仅包含前 ${formatKB(content.readBytes)}]`
+    : '';
+  return `[文件内容: ${fileName}]\n${content.text}${note}\n[/文件内容]`;
+}
+
+function formatKB(bytes: number): string {
+  return `${Math.ceil(bytes / 1024)}KB`;
+}
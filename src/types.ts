@@ -25,12 +25,31 @@ export interface DingTalkConfig extends ClawdbotConfig {
   dmPolicy?: 'open' | 'pairing' | 'allowlist';
   groupPolicy?: 'open' | 'allowlist';
   allowFrom?: string[];
+  pairing?: DingTalkPairingConfig;
+  groups?: Record<string, DingTalkGroupConfig>;
+  groupAccessNotice?: boolean;
+  requireMention?: boolean;
+  triggerPrefixes?: string[];
+  triggerKeywords?: string[];
   showThinking?: boolean;
+  thinkingIndicator?: 'message' | 'reaction';
   debug?: boolean;
-  messageType?: 'text' | 'markdown' | 'card';
+  messageType?: 'text' | 'markdown' | 'card' | 'aicard';
   cardTemplateId?: string;
   cardSendApiUrl?: string;
   cardUpdateApiUrl?: string;
+  cardCallbackRouteKey?: string;
+  aiCardTemplateId?: string;
+  aiCardContentKey?: string;
+  chunkLimits?: DingTalkChunkLimitsConfig;
+  dedup?: DingTalkDedupConfig;
+  connection?: DingTalkConnectionConfig;
+  rateLimit?: DingTalkRateLimitConfig;
+  deliveryMode?: 'direct' | 'queued';
+  outboundQueue?: DingTalkOutboundQueueConfig;
+  directory?: DingTalkDirectoryConfig;
+  mediaMaxMb?: number;
+  textAttachments?: DingTalkTextAttachmentsConfig;
   accounts?: Record<string, DingTalkConfig>;
 }
 
@@ -47,15 +66,261 @@ export interface DingTalkChannelConfig {
   dmPolicy?: 'open' | 'pairing' | 'allowlist';
   groupPolicy?: 'open' | 'allowlist';
   allowFrom?: string[];
+  pairing?: DingTalkPairingConfig;
+  groups?: Record<string, DingTalkGroupConfig>;
+  groupAccessNotice?: boolean;
+  requireMention?: boolean;
+  triggerPrefixes?: string[];
+  triggerKeywords?: string[];
   showThinking?: boolean;
+  thinkingIndicator?: 'message' | 'reaction';
   debug?: boolean;
-  messageType?: 'text' | 'markdown' | 'card';
+  messageType?: 'text' | 'markdown' | 'card' | 'aicard';
   cardTemplateId?: string;
   cardSendApiUrl?: string;
   cardUpdateApiUrl?: string;
+  cardCallbackRouteKey?: string;
+  aiCardTemplateId?: string;
+  aiCardContentKey?: string;
+  chunkLimits?: DingTalkChunkLimitsConfig;
+  dedup?: DingTalkDedupConfig;
+  connection?: DingTalkConnectionConfig;
+  rateLimit?: DingTalkRateLimitConfig;
+  deliveryMode?: 'direct' | 'queued';
+  outboundQueue?: DingTalkOutboundQueueConfig;
+  directory?: DingTalkDirectoryConfig;
+  mediaMaxMb?: number;
+  textAttachments?: DingTalkTextAttachmentsConfig;
   accounts?: Record<string, DingTalkConfig>;
 }
 
+/**
+ * Pairing handshake settings (dmPolicy 'pairing')
+ */
+export interface DingTalkPairingConfig {
+  codeTtlMinutes?: number;
+  maxPendingPerSender?: number;
+}
+
+/**
+ * Pending pairing request issued to an unknown DM sender
+ */
+export interface PairingRequest {
+  /** Account (bot) the sender asked to pair with */
+  accountId: string;
+  senderId: string;
+  senderName?: string;
+  code: string;
+  /** Set when the SDK pairing store issued the code, so `clawdbot pairing approve` accepts it too */
+  issuedBySdk?: boolean;
+  createdAt: number;
+  expiresAt: number;
+}
+
+/**
+ * Per-group settings (keyed by openConversationId, '*' for the default)
+ */
+export interface DingTalkGroupConfig {
+  enabled?: boolean;
+  requireMention?: boolean;
+  triggerPrefixes?: string[];
+  triggerKeywords?: string[];
+  allowFrom?: string[];
+  systemPrompt?: string;
+  agentId?: string;
+  messageType?: 'text' | 'markdown' | 'card' | 'aicard';
+}
+
+/**
+ * Maximum characters per message before a reply is split, per send path
+ */
+export interface DingTalkChunkLimitsConfig {
+  session?: number;
+  proactive?: number;
+  card?: number;
+}
+
+/**
+ * Inbound message de-duplication settings
+ */
+export interface DingTalkDedupConfig {
+  ttlSeconds?: number;
+  maxEntries?: number;
+  persist?: boolean;
+}
+
+/**
+ * Stream connection health monitoring settings
+ */
+export interface DingTalkConnectionConfig {
+  silenceTimeoutSeconds?: number;
+  maxReconnectDelaySeconds?: number;
+}
+
+/**
+ * Outbound rate limit settings
+ */
+export interface DingTalkRateLimitConfig {
+  enabled?: boolean;
+  perConversationPerMinute?: number;
+  perAppPerMinute?: number;
+}
+
+/**
+ * Persistent outbound queue settings (deliveryMode 'queued')
+ */
+export interface DingTalkOutboundQueueConfig {
+  maxAttempts?: number;
+  retryBaseSeconds?: number;
+  retryMaxSeconds?: number;
+  maxDeadLetters?: number;
+}
+
+/**
+ * Outbound message accepted by the persistent queue
+ */
+export interface OutboxMessage {
+  /** openConversationId (cid...) or userId */
+  to: string;
+  kind: 'text' | 'media';
+  text?: string;
+  /** Message template and title of a text rendered when it was queued; sent as is */
+  msgKey?: string;
+  title?: string;
+  /** Local path or URL of the media to send */
+  mediaSource?: string;
+  caption?: string;
+  fileName?: string;
+}
+
+/**
+ * Queued outbound message with its delivery state
+ */
+export interface OutboxEntry extends OutboxMessage {
+  id: string;
+  accountId: string;
+  attempts: number;
+  createdAt: number;
+  nextAttemptAt: number;
+  lastError?: string;
+  /** Set once the message moved to the dead-letter list */
+  deadAt?: number;
+}
+
+/**
+ * Contact directory lookup settings (user:/mobile:/email:/unionid: targets)
+ */
+export interface DingTalkDirectoryConfig {
+  cacheTtlMinutes?: number;
+}
+
+/**
+ * Inlining of text-like file attachments into the inbound message body
+ */
+export interface DingTalkTextAttachmentsConfig {
+  enabled?: boolean;
+  /** Content beyond this size is cut off */
+  maxSizeKB?: number;
+}
+
+/**
+ * Contact directory entry, as listed in ambiguity errors
+ */
+export interface DirectoryUser {
+  userId: string;
+  name: string;
+  title?: string;
+  department?: string;
+  email?: string;
+}
+
+/**
+ * A conversation the bot has seen, as kept in the conversation registry
+ */
+export interface ConversationRecord {
+  accountId: string;
+  /** openConversationId (cid…) */
+  conversationId: string;
+  type: 'group' | 'direct';
+  /** Proactive send target: the openConversationId for groups, the sender's userId for DMs */
+  target: string;
+  /** Group title, or the sender's name for DMs */
+  title?: string;
+  firstSeenAt: number;
+  lastActivityAt: number;
+  messageCount: number;
+  /** Most recently seen senders first */
+  participants: ConversationParticipant[];
+}
+
+/**
+ * Sender seen in a conversation
+ */
+export interface ConversationParticipant {
+  userId: string;
+  name?: string;
+  lastSeenAt: number;
+}
+
+/**
+ * User @-mentioned in an inbound message (other than the bot)
+ */
+export interface MentionedUser {
+  /** staffId when DingTalk provides it, otherwise the dingtalkId */
+  userId: string;
+  dingtalkId: string;
+  /** Display name, when the user has been seen in the conversation */
+  name?: string;
+}
+
+/**
+ * Person a reply @-mentions; without a userId the mention is text only
+ */
+export interface ReplyMention {
+  userId?: string;
+  name: string;
+}
+
+/**
+ * Outbound send queue statistics, reported in status snapshots
+ */
+export interface RateLimitStats {
+  queueDepth: number;
+  /** Age of the oldest send still queued */
+  oldestQueuedMs: number;
+  lastWaitMs: number;
+  averageWaitMs: number;
+  maxWaitMs: number;
+  /** Sends folded into an earlier queued send */
+  merged: number;
+}
+
+/**
+ * Stream connection health of an account, reported in status snapshots
+ */
+export interface StreamHealthSnapshot {
+  connected: boolean;
+  /** Set after repeated reconnect or outbound failures */
+  degraded: boolean;
+  lastConnectedAt: number | null;
+  lastDisconnectedAt: number | null;
+  reconnectAttempts: number;
+  lastInboundAt: number | null;
+  lastOutboundAt: number | null;
+  lastOutboundError: string | null;
+  lastError: string | null;
+}
+
+/**
+ * Options for an account's de-duplication cache
+ */
+export interface DedupCacheOptions {
+  ttlMs?: number;
+  maxEntries?: number;
+  /** Persist entries to this file (in-memory only when omitted) */
+  filePath?: string;
+}
+
 /**
  * DingTalk token info for caching
  */
@@ -98,6 +363,46 @@ export interface MediaFile {
   mimeType: string;
 }
 
+/**
+ * Media types accepted by DingTalk's media upload API
+ */
+export type DingTalkMediaType = 'image' | 'voice' | 'video' | 'file';
+
+/**
+ * Detected media type of a local file
+ */
+export interface MediaTypeInfo {
+  mediaType: DingTalkMediaType;
+  mimeType: string;
+  extension: string;
+}
+
+/**
+ * Media upload response from DingTalk API
+ */
+export interface MediaUploadResponse {
+  errcode?: number;
+  errmsg?: string;
+  media_id?: string;
+  type?: string;
+  created_at?: number;
+}
+
+/**
+ * Send media options
+ */
+export interface SendMediaOptions {
+  /** Text sent after the media message */
+  caption?: string;
+  /** Display name for file messages (defaults to the file's basename) */
+  fileName?: string;
+  /** Audio/video duration in milliseconds (estimated for audio when omitted) */
+  durationMs?: number;
+  /** Cover image for video messages; videos without a cover are sent as files */
+  coverPath?: string;
+  log?: any;
+}
+
 /**
  * DingTalk incoming message (Stream mode)
  */
@@ -107,15 +412,20 @@ export interface DingTalkInboundMessage {
   createAt: number;
   text?: {
     content: string;
+    isReplyMsg?: boolean;
+    repliedMsg?: DingTalkRepliedMessage;
   };
   content?: {
     downloadCode?: string;
     fileName?: string;
     recognition?: string;
     richText?: Array<{
-      type: string;
+      type?: string;
       text?: string;
       atName?: string;
+      downloadCode?: string;
+      pictureDownloadCode?: string;
+      fileName?: string;
     }>;
   };
   conversationType: string;
@@ -125,7 +435,61 @@ export interface DingTalkInboundMessage {
   senderStaffId?: string;
   senderNick?: string;
   chatbotUserId: string;
+  isInAtList?: boolean;
+  /** Users @-mentioned in the message, the bot included */
+  atUsers?: Array<{ dingtalkId: string; staffId?: string }>;
   sessionWebhook: string;
+  /** Expiry of the session webhook (epoch milliseconds) */
+  sessionWebhookExpiredTime?: number;
+}
+
+/**
+ * Message quoted by an inbound reply (text.repliedMsg)
+ */
+export interface DingTalkRepliedMessage {
+  msgId?: string;
+  msgType?: string;
+  senderId?: string;
+  senderNick?: string;
+  createdAt?: number;
+  content?: {
+    text?: string;
+    downloadCode?: string;
+    pictureDownloadCode?: string;
+    fileName?: string;
+    recognition?: string;
+    richText?: Array<{
+      msgType?: string;
+      type?: string;
+      content?: string;
+      text?: string;
+      downloadCode?: string;
+      pictureDownloadCode?: string;
+    }>;
+  };
+}
+
+/**
+ * Quoted message content passed to the agent as reply-to context
+ */
+export interface QuotedMessageContent {
+  id?: string;
+  senderId?: string;
+  senderName?: string;
+  text: string;
+  /** Download code of the quoted media, if any */
+  mediaPath?: string;
+  mediaType?: string;
+  fileName?: string;
+}
+
+/**
+ * Media item embedded in an inbound message
+ */
+export interface InboundMediaRef {
+  downloadCode: string;
+  mediaType: string;
+  fileName?: string;
 }
 
 /**
@@ -135,7 +499,12 @@ export interface MessageContent {
   text: string;
   mediaPath?: string;
   mediaType?: string;
+  /** Original name of a received file */
+  fileName?: string;
+  /** Every media item of a richText message, in message order (marked as [图片N] in the text) */
+  media?: InboundMediaRef[];
   messageType: string;
+  quoted?: QuotedMessageContent;
 }
 
 /**
@@ -145,9 +514,47 @@ export interface SendMessageOptions {
   title?: string;
   useMarkdown?: boolean;
   atUserId?: string | null;
+  /** Display name for mentions that can only be written as text (proactive messages) */
+  atUserName?: string;
+  /** Further people to @-mention, e.g. from a [[at: …]] directive */
+  mentions?: ReplyMention[];
+  /** @所有人 */
+  atAll?: boolean;
+  /** Buttons and input fields rendered on interactive cards */
+  actions?: CardAction[];
+  /** Conversation the message goes to, for rate limiting (session webhook sends fall back to the webhook URL) */
+  conversationId?: string;
   log?: any;
 }
 
+/**
+ * Where replies to a conversation go: the session webhook while it is usable,
+ * otherwise proactive messages to `to` (openConversationId or userId)
+ */
+export interface ConversationReplyTarget {
+  to: string;
+  sessionWebhook?: string;
+  /** Epoch milliseconds after which the session webhook is no longer accepted */
+  sessionWebhookExpiresAt?: number;
+}
+
+/**
+ * Outcome of a session webhook send. Sending stops at the first chunk the webhook
+ * rejects, which is returned in `unsent` together with the chunks after it.
+ */
+export interface SessionSendResult {
+  /** Response to the last chunk sent */
+  response: any;
+  /** Chunks delivered before the rejection (all of them when nothing was rejected) */
+  delivered: number;
+  unsent: string[];
+  /** Request error of the rejected chunk, when it failed instead of returning an errcode */
+  error?: any;
+  /** How the chunks were rendered, so unsent ones can go out elsewhere unchanged */
+  useMarkdown: boolean;
+  title: string;
+}
+
 /**
  * Session webhook response
  */
@@ -173,9 +580,12 @@ export interface HandleDingTalkMessageParams {
   cfg: ClawdbotConfig;
   accountId: string;
   data: DingTalkInboundMessage;
+  /** Empty for events without a session (e.g. card callbacks); replies then go out proactively */
   sessionWebhook: string;
   log?: any;
   dingtalkConfig: DingTalkConfig;
+  /** Set when the inbound event is a card action rather than a chat message */
+  cardAction?: CardActionEvent;
 }
 
 /**
@@ -284,6 +694,8 @@ export interface GatewayStartContext {
   cfg: ClawdbotConfig;
   abortSignal?: AbortSignal;
   log?: Logger;
+  /** Patch the account's runtime status */
+  setStatus?: (patch: Record<string, unknown>) => void;
 }
 
 /**
@@ -353,6 +765,7 @@ export interface DingTalkChannelPlugin {
       lastError: null;
     };
     probe: (params: any) => Promise<{ ok: boolean; error?: string; details?: any }>;
+    buildAccountSnapshot: (params: any) => any;
     buildChannelSummary: (params: any) => any;
   };
 }
@@ -391,7 +804,13 @@ export interface SendTextParams {
 export interface SendMediaParams {
   cfg: DingTalkConfig;
   to: string;
-  mediaPath: string;
+  mediaPath?: string;
+  mediaUrl?: string;
+  /** Optional caption (the SDK passes it as `text`) */
+  caption?: string;
+  text?: string;
+  /** Optional display name for file messages */
+  fileName?: string;
   accountId?: string;
   [key: string]: any;
 }
@@ -406,6 +825,71 @@ export interface DingTalkOutboundHandler {
   sendMedia?: (params: SendMediaParams) => Promise<{ ok: boolean; data?: any; error?: any }>;
 }
 
+/**
+ * Card button the agent can attach to a reply
+ */
+export interface CardButtonAction {
+  type: 'button';
+  /** Action ID reported back in the card callback */
+  id: string;
+  label: string;
+  style?: 'primary' | 'normal' | 'warning';
+  /** Extra parameters reported back when the button is clicked */
+  params?: Record<string, string>;
+}
+
+/**
+ * Card input field the agent can attach to a reply.
+ * Its value is reported back in the callback params under `id`.
+ */
+export interface CardInputAction {
+  type: 'input';
+  id: string;
+  label?: string;
+  placeholder?: string;
+}
+
+/**
+ * Typed action schema for interactive card replies
+ */
+export type CardAction = CardButtonAction | CardInputAction;
+
+/**
+ * Text/markdown block inside a card
+ */
+export interface InteractiveCardTextContent {
+  type: 'text' | 'markdown';
+  text: string;
+}
+
+/**
+ * Button row inside a card
+ */
+export interface InteractiveCardActionContent {
+  type: 'action';
+  actions: Array<{
+    type: 'button';
+    id: string;
+    label: { type: 'text'; text: string };
+    actionType: 'request';
+    status: 'primary' | 'normal' | 'warning';
+    params?: Record<string, string>;
+  }>;
+}
+
+/**
+ * Input field inside a card
+ */
+export interface InteractiveCardInputContent {
+  type: 'input';
+  id: string;
+  label?: { type: 'text'; text: string };
+  placeholder?: { type: 'text'; text: string };
+}
+
+export type InteractiveCardContent =
+  InteractiveCardTextContent | InteractiveCardActionContent | InteractiveCardInputContent;
+
 /**
  * Interactive card data structure
  */
@@ -421,14 +905,23 @@ export interface InteractiveCardData {
     };
     logo?: string;
   };
-  contents?: Array<{
-    type: string;
-    text?: string;
-    [key: string]: any;
-  }>;
+  contents?: InteractiveCardContent[];
   [key: string]: any;
 }
 
+/**
+ * Card action callback (button click / form submit) received over Stream
+ */
+export interface CardActionEvent {
+  cardBizId: string;
+  actionId: string;
+  params: Record<string, unknown>;
+  /** Operator who clicked the card */
+  userId: string;
+  /** openConversationId of the group the card lives in, when reported */
+  openConversationId?: string;
+}
+
 /**
  * Interactive card send request payload
  */
@@ -440,6 +933,7 @@ export interface InteractiveCardSendRequest {
   singleChatReceiver?: string;
   cardData: string;
   callbackUrl?: string;
+  callbackRouteKey?: string;
   userIdPrivateDataMap?: string;
   unionIdPrivateDataMap?: string;
 }
@@ -467,6 +961,56 @@ export interface InteractiveCardResponse {
   processQueryKey?: string;
 }
 
+/**
+ * AI card flow status (cardParamMap.flowStatus)
+ */
+export type AICardFlowStatus = '1' | '2' | '3' | '5';
+
+/**
+ * AI card create-and-deliver request payload
+ */
+export interface AICardCreateRequest {
+  cardTemplateId: string;
+  outTrackId: string;
+  cardData: {
+    cardParamMap: Record<string, string>;
+  };
+  callbackType: 'STREAM';
+  callbackRouteKey?: string;
+  openSpaceId: string;
+  userIdType: number;
+  imGroupOpenSpaceModel?: { supportForward: boolean };
+  imGroupOpenDeliverModel?: { robotCode: string };
+  imRobotOpenSpaceModel?: { supportForward: boolean };
+  imRobotOpenDeliverModel?: { spaceType: 'IM_ROBOT'; robotCode: string };
+}
+
+/**
+ * AI card streaming update request payload
+ */
+export interface AICardStreamingRequest {
+  outTrackId: string;
+  guid: string;
+  key: string;
+  content: string;
+  isFull: boolean;
+  isFinalize: boolean;
+  isError: boolean;
+}
+
+/**
+ * AI card instance update request payload
+ */
+export interface AICardUpdateRequest {
+  outTrackId: string;
+  cardData: {
+    cardParamMap: Record<string, string>;
+  };
+  cardUpdateOptions: {
+    updateCardDataByKey: boolean;
+  };
+}
+
 /**
  * Card instance tracking info for streaming updates
  */
@@ -475,4 +1019,14 @@ export interface CardInstance {
   conversationId: string;
   createdAt: number;
   lastUpdated: number;
+  /** Legacy interactive card (default) or AI card instance */
+  kind?: 'interactive' | 'ai';
+  /** Current flow status of an AI card */
+  flowStatus?: AICardFlowStatus;
+  /** clientId of the app that owns the card, for recovery after a restart */
+  clientId?: string;
+  /** Last text written to the card */
+  lastText?: string;
+  /** Set once the card's content is complete; unset while a reply is still streaming into it */
+  finished?: boolean;
 }
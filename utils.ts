@@ -40,26 +40,34 @@ export function maskSensitiveData(data: unknown): any {
 
 /**
  * Cleanup orphaned temp files from dingtalk media
- * Run at startup to clean up files from crashed processes
+ * Run at startup to clean up files from crashed processes: legacy `dingtalk_<timestamp>` files
+ * in the OS temp dir, and download directories (`dl-*`) in the account's media dir
  */
-export function cleanupOrphanedTempFiles(log?: Logger): number {
+export function cleanupOrphanedTempFiles(log?: Logger, mediaDir?: string): number {
   const tempDir = os.tmpdir();
   const dingtalkPattern = /^dingtalk_\d+\..+$/;
+  const downloadDirPattern = /^dl-/;
   let cleaned = 0;
 
   try {
-    const files = fs.readdirSync(tempDir);
     const now = Date.now();
     const maxAge = 24 * 60 * 60 * 1000;
+    const candidates = fs
+      .readdirSync(tempDir)
+      .filter((file) => dingtalkPattern.test(file))
+      .map((file) => path.join(tempDir, file));
+    if (mediaDir && fs.existsSync(mediaDir)) {
+      for (const entry of fs.readdirSync(mediaDir)) {
+        if (downloadDirPattern.test(entry)) candidates.push(path.join(mediaDir, entry));
+      }
+    }
 
-    for (const file of files) {
-      if (!dingtalkPattern.test(file)) continue;
-
-      const filePath = path.join(tempDir, file);
+    for (const filePath of candidates) {
+      const file = path.basename(filePath);
       try {
         const stats = fs.statSync(filePath);
         if (now - stats.mtime.getTime() > maxAge) {
-          fs.unlinkSync(filePath);
+          fs.rmSync(filePath, { recursive: true, force: true });
           cleaned++;
           log?.debug?.(`[DingTalk] Cleaned up orphaned temp file: ${file}`);
         }